@@ -28,6 +28,9 @@ import { GateClient } from "../services/gateClient";
 import { formatChinaTime } from "../utils/timeUtils";
 import { RISK_PARAMS } from "../config/riskParams";
 import { createOpenAI } from "@ai-sdk/openai"; 
+import type { OrderEvent } from "../services/orderTracker";
+import type { EntryOrderMode } from "../services/limitEntry";
+import { type CircuitBreakerConfig, getCircuitBreakerConfig } from "../risk/circuitBreaker";
 /**
  * 账户风险配置
  */
@@ -235,11 +238,18 @@ export function generateTradingPrompt(data: {
   marketData: any;
   accountInfo: any;
   positions: any[];
+  /** 组合相关性风险：{ model, exposure, maxNetBetaExposureMultiple }（见 risk/portfolioRisk） */
+  portfolioRisk?: any;
+  /** 上一轮以来的订单事件（成交、部分成交、撤销、卡住，见 services/orderTracker） */
+  orderEvents?: OrderEvent[];
   tradeHistory?: any[];
   recentDecisions?: any[];
+  /** 当前时间（回测时为虚拟时间），默认系统时间 */
+  currentTime?: Date;
 }): string {
-  const { minutesElapsed, iteration, intervalMinutes, marketData, accountInfo, positions, tradeHistory, recentDecisions } = data;
-  const currentTime = formatChinaTime();
+  const { minutesElapsed, iteration, intervalMinutes, marketData, accountInfo, positions, portfolioRisk, orderEvents, tradeHistory, recentDecisions } = data;
+  const nowTime = data.currentTime || new Date();
+  const currentTime = formatChinaTime(nowTime);
   
   let prompt = `您已经开始交易 ${minutesElapsed} 分钟。当前时间是 ${currentTime}，您已被调用 ${iteration} 次。下面我们为您提供各种状态数据、价格数据和预测信号，以便您发现阿尔法收益。下面还有您当前的账户信息、价值、表现、持仓等。
 
@@ -343,18 +353,24 @@ export function generateTradingPrompt(data: {
     prompt += `当前账户价值: ${accountInfo.totalBalance.toFixed(2)} USDT\n`;
     prompt += `账户回撤 (从峰值): ${drawdownFromPeak >= 0 ? '' : '+'}${(-drawdownFromPeak).toFixed(2)}%\n`;
     prompt += `账户回撤 (从初始): ${drawdownFromInitial >= 0 ? '' : '+'}${(-drawdownFromInitial).toFixed(2)}%\n\n`;
-    
-    // 添加风控警告
-    if (drawdownFromPeak >= 20) {
-      prompt += `🚨 严重警告: 账户回撤已达到 ${drawdownFromPeak.toFixed(2)}%，必须立即平仓所有持仓并停止交易!\n\n`;
-    } else if (drawdownFromPeak >= 15) {
-      prompt += `⚠️ 警告: 账户回撤已达到 ${drawdownFromPeak.toFixed(2)}%，已触发风控保护，禁止新开仓!\n\n`;
-    } else if (drawdownFromPeak >= 10) {
-      prompt += `⚠️ 提醒: 账户回撤已达到 ${drawdownFromPeak.toFixed(2)}%，请谨慎交易\n\n`;
-    }
+    // 回撤风控警告由下方的回撤熔断状态给出（阈值取引擎 riskParams.circuitBreaker）
   } else {
     prompt += `当前账户价值: ${accountInfo.totalBalance.toFixed(2)} USDT\n\n`;
   }
+
+  // 回撤熔断状态（由引擎维护，block_entries 及以上时 openPosition 会被拒绝）
+  const breaker = accountInfo.circuitBreaker;
+  if (breaker && breaker.level !== "normal") {
+    prompt += breaker.level === "warn"
+      ? `⚠️ 回撤熔断预警: ${breaker.reason}，请降低风险\n\n`
+      : `🚨 回撤熔断已触发 (${breaker.level}): ${breaker.reason}，禁止新开仓，只能平仓或持有\n\n`;
+  }
+
+  // 单日亏损限额 / 连续亏损冷却（生效期间 openPosition 会被拒绝）
+  const lossLimits = accountInfo.lossLimits;
+  if (lossLimits?.blockedReason) {
+    prompt += `⏸️ 暂停开仓: ${lossLimits.blockedReason}。请只管理现有持仓，不要尝试新开仓\n\n`;
+  }
   
   prompt += `当前总收益率: ${accountInfo.returnPercent.toFixed(2)}%\n\n`;
   
@@ -381,7 +397,7 @@ export function generateTradingPrompt(data: {
       
       // 计算持仓时长
       const openedTime = new Date(pos.opened_at);
-      const now = new Date();
+      const now = nowTime;
       const holdingMinutes = Math.floor((now.getTime() - openedTime.getTime()) / (1000 * 60));
       const holdingHours = (holdingMinutes / 60).toFixed(1);
       const remainingHours = Math.max(0, 36 - parseFloat(holdingHours));
@@ -393,6 +409,13 @@ export function generateTradingPrompt(data: {
       prompt += `  杠杆倍数: ${pos.leverage}x\n`;
       prompt += `  盈亏百分比: ${pnlPercent >= 0 ? '+' : ''}${pnlPercent.toFixed(2)}% (已考虑杠杆倍数)\n`;
       prompt += `  盈亏金额: ${pos.unrealized_pnl >= 0 ? '+' : ''}${pos.unrealized_pnl.toFixed(2)} USDT\n`;
+      if (pos.peak_pnl_percent !== undefined) {
+        const peak = pos.peak_pnl_percent;
+        prompt += `  峰值盈亏百分比: ${peak >= 0 ? '+' : ''}${peak.toFixed(2)}% (本笔持仓以来的最高值)\n`;
+        if (peak > 0) {
+          prompt += `  从峰值回撤: ${(((peak - pnlPercent) / peak) * 100).toFixed(1)}% (超过30%将触发峰值回撤保护)\n`;
+        }
+      }
       prompt += `  开仓价: ${pos.entry_price.toFixed(2)}\n`;
       prompt += `  当前价: ${pos.current_price.toFixed(2)}\n`;
       prompt += `  开仓时间: ${formatChinaTime(pos.opened_at)}\n`;
@@ -409,7 +432,38 @@ export function generateTradingPrompt(data: {
       prompt += "\n";
     }
   }
+
+  // 组合相关性风险
+  const riskModel = portfolioRisk?.model;
+  if (riskModel && riskModel.sampleSize > 1) {
+    const symbols = Object.keys(riskModel.betas);
+    const { exposure, maxNetBetaExposureMultiple } = portfolioRisk;
+    prompt += `组合风险（基于最近 ${riskModel.sampleSize} 根 1 小时 K 线收益率，基准 ${riskModel.benchmark}）\n`;
+    prompt += `  beta: ${symbols.map((s) => `${s} ${riskModel.betas[s].toFixed(2)}`).join(", ")}\n`;
+    if (symbols.length > 1) {
+      prompt += `  相关系数:\n`;
+      for (const a of symbols) {
+        prompt += `    ${a}: ${symbols.filter((b) => b !== a).map((b) => `${b} ${riskModel.correlations[a][b].toFixed(2)}`).join(", ")}\n`;
+      }
+    }
+    const net = exposure.netBetaNotional;
+    prompt += `  beta 加权净方向敞口: ${net >= 0 ? '+' : ''}${net.toFixed(2)} USDT（账户净值的 ${exposure.netBetaMultiple.toFixed(2)} 倍，上限 ±${maxNetBetaExposureMultiple.toFixed(2)} 倍）\n`;
+    prompt += `  说明: 同向持有高相关币种相当于加大同一笔押注，超过净敞口上限的开仓会被缩小或拒绝；反向持仓可降低净敞口\n\n`;
+  }
   
+  // 订单执行结果
+  if (orderEvents && orderEvents.length > 0) {
+    const labels: Record<string, string> = { filled: "已成交", partial_fill: "部分成交", cancelled: "已撤销", stuck: "长时间未完成" };
+    prompt += "订单执行结果（上一轮以来）：\n";
+    for (const event of orderEvents) {
+      const { order } = event;
+      const filled = `${Math.abs(order.filledSize)}/${Math.abs(order.size)} 张`;
+      const price = order.avgFillPrice > 0 ? `，成交均价 ${order.avgFillPrice}，手续费 ${order.fee.toFixed(4)} USDT` : "";
+      prompt += `  ${order.contract.replace("_USDT", "")} ${order.purpose} #${order.id}: ${labels[event.type] || event.type}，成交 ${filled}${price}${order.reason ? `（${order.reason}）` : ""}\n`;
+    }
+    prompt += "  说明: 撤销或长时间未完成的订单没有按预期改变持仓，请以上面的当前持仓为准\n\n";
+  }
+
   // Sharpe Ratio
   if (accountInfo.sharpeRatio !== undefined) {
     prompt += `夏普比率: ${accountInfo.sharpeRatio.toFixed(3)}\n\n`;
@@ -480,8 +534,14 @@ export function generateTradingPrompt(data: {
 /**
  * 根据策略生成交易指令
  */
-export function generateInstructions(strategy: TradingStrategy, intervalMinutes: number): string {
+export function generateInstructions(
+  strategy: TradingStrategy,
+  intervalMinutes: number,
+  options: { atrSizing?: boolean; entryMode?: EntryOrderMode; circuitBreaker?: CircuitBreakerConfig } = {},
+): string {
   const params = getStrategyParams(strategy);
+  const breaker = options.circuitBreaker ?? getCircuitBreakerConfig();
+  const limitEntry = options.entryMode === "limit" || options.entryMode === "post_only";
   
   return `您是一位经验丰富的加密货币期货量化交易员，当前采用【${params.name}】策略。您的目标是${params.tradingStyle}。
 
@@ -522,7 +582,9 @@ export function generateInstructions(strategy: TradingStrategy, intervalMinutes:
 
 当前交易规则（${params.name}策略）：
 - 您交易加密货币的永续期货合约（${RISK_PARAMS.TRADING_SYMBOLS.join('、')}）
-- 仅限市价单 - 以当前价格即时执行
+${limitEntry
+  ? `- 开仓使用${options.entryMode === "post_only" ? " post-only（只做 Maker）" : ""}限价单在盘口最优价挂单，超时未成交的部分自动撤销，开仓结果以返回的成交张数和均价为准；平仓使用市价单即时执行`
+  : "- 仅限市价单 - 以当前价格即时执行"}
 - **杠杆控制（严格限制）**：必须使用${params.leverageMin}-${params.leverageMax}倍杠杆。
   * ${params.leverageRecommend.normal}：用于普通信号
   * ${params.leverageRecommend.good}：用于良好信号
@@ -544,7 +606,7 @@ export function generateInstructions(strategy: TradingStrategy, intervalMinutes:
 - **开仓前强制检查**：
   1. 使用getAccountBalance检查可用资金和账户净值
   2. 使用getPositions检查现有持仓数量和总敞口
-  3. 检查账户是否触发最大回撤保护（净值回撤≥15%时禁止新开仓）
+  3. 检查账户是否触发回撤熔断（净值回撤≥${breaker.blockPercent}%时禁止新开仓）
 - **止损规则（${params.name}策略，动态止损）**：根据杠杆倍数设置初始止损，杠杆越高止损越严格
   * **${params.leverageMin}-${Math.floor((params.leverageMin + params.leverageMax) / 2)}倍杠杆**：初始止损 ${params.stopLoss.low}%
   * **${Math.floor((params.leverageMin + params.leverageMax) / 2)}-${Math.ceil((params.leverageMin + params.leverageMax) * 0.75)}倍杠杆**：初始止损 ${params.stopLoss.mid}%
@@ -561,16 +623,17 @@ export function generateInstructions(strategy: TradingStrategy, intervalMinutes:
   * **重要说明**：这里的 pnl_percent 同样是考虑杠杆后的盈亏百分比
   * **峰值回撤保护**：如果持仓曾达到峰值盈利，但当前盈利回撤超过峰值的30%，立即平仓
 - **账户级风控保护**：
-  * 如果账户净值从初始值或最高值回撤≥15%，立即停止所有新开仓
-  * 如果账户净值回撤≥20%，立即平仓所有持仓并停止交易
+  * 账户净值（含未实现盈亏）从峰值回撤≥${breaker.warnPercent}%：熔断预警，降低风险
+  * 回撤≥${breaker.blockPercent}%：系统禁止新开仓，只允许平仓现有持仓
+  * 回撤≥${breaker.haltPercent}%：系统平掉所有持仓并停止交易
   * 每次执行时都要检查账户回撤情况
 
 您的决策过程（每${intervalMinutes}分钟执行一次）：
 1. **账户健康检查（最优先）**：
    - 使用getAccountBalance获取账户净值和可用余额
-   - 计算账户回撤：(初始净值或峰值净值 - 当前净值) / 初始净值或峰值净值
-   - 如果回撤≥15%：禁止新开仓，只允许平仓现有持仓
-   - 如果回撤≥20%：立即平仓所有持仓并停止交易
+   - 计算账户回撤：(峰值净值 - 当前净值) / 峰值净值，并查看提示中的回撤熔断状态
+   - 如果回撤≥${breaker.blockPercent}%：禁止新开仓，只允许平仓现有持仓
+   - 如果回撤≥${breaker.haltPercent}%：立即平仓所有持仓并停止交易
 
 2. **现有持仓管理（优先于开新仓）**：
    - 使用getPositions获取所有持仓信息
@@ -590,7 +653,7 @@ export function generateInstructions(strategy: TradingStrategy, intervalMinutes:
       - 如果 pnl_percent ≥ +25%：
         * 如果当前 pnl_percent < +15%，立即平仓（移动止损触发）
       - 如果 pnl_percent ≥ +35%：
-        * 考虑获利了结，至少平仓50%
+        * 考虑获利了结，至少平仓50%（closePosition 的 percentage 参数支持部分平仓）
    
    c) **峰值回撤保护**：
       - 记录每个持仓的历史最高 pnl_percent（峰值盈利）
@@ -608,7 +671,7 @@ export function generateInstructions(strategy: TradingStrategy, intervalMinutes:
    - ${params.entryCondition}
 
 4. **评估新交易机会（${params.name}策略）**：
-   - 账户回撤 < 15%
+   - 账户回撤 < ${breaker.blockPercent}%
    - 现有持仓数 < ${RISK_PARAMS.MAX_POSITIONS}
    - ${params.entryCondition}
    - 潜在利润≥2-3%（扣除0.1%费用后仍有净收益）
@@ -633,7 +696,7 @@ export function generateInstructions(strategy: TradingStrategy, intervalMinutes:
 
 可用工具：
 - 市场数据：getMarketPrice、getTechnicalIndicators、getFundingRate、getOrderBook
-- 持仓管理：openPosition（市价单）、closePosition（市价单）、cancelOrder
+- 持仓管理：openPosition（${limitEntry ? "限价挂单" : "市价单"}）、closePosition（市价单）、cancelOrder
 - 账户信息：getAccountBalance、getPositions、getOpenOrders
 - 风险分析：calculateRisk、checkOrderStatus
 
@@ -651,10 +714,12 @@ export function generateInstructions(strategy: TradingStrategy, intervalMinutes:
   * pnl_percent ≥ +25%时，止损移至+15%
   * 峰值回撤超过30%时立即平仓
 - **账户级保护**：
-  * 账户回撤≥15%：禁止新开仓
-  * 账户回撤≥20%：立即平仓所有持仓并停止交易
+  * 账户回撤≥${breaker.blockPercent}%：禁止新开仓
+  * 账户回撤≥${breaker.haltPercent}%：立即平仓所有持仓并停止交易
 - **入场条件（${params.name}策略）**：${params.entryCondition}
-- **仓位大小（${params.name}策略）**：${params.positionSizeRecommend.normal}（普通）、${params.positionSizeRecommend.good}（良好）、${params.positionSizeRecommend.strong}（强）
+${options.atrSizing
+  ? `- **仓位大小（系统计算）**：openPosition 只需提供方向(side)和信号强度(conviction: normal/good/strong)，仓位大小按 ATR 止损距离和单笔风险自动计算，杠杆按信号强度在${params.leverageMin}-${params.leverageMax}倍区间内选择`
+  : `- **仓位大小（${params.name}策略）**：${params.positionSizeRecommend.normal}（普通）、${params.positionSizeRecommend.good}（良好）、${params.positionSizeRecommend.strong}（强）`}
 - **费用意识**：每笔往返交易成本0.1%。潜在利润≥2-3%时即可考虑交易。
 - **最大持仓时间**：36小时。无论盈亏，在36小时内平仓所有持仓。
 - **优先级**：
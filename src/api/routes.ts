@@ -21,10 +21,14 @@
  */
 import { Hono } from "hono";
 import { serveStatic } from "@hono/node-server/serve-static";
-import { createClient } from "@libsql/client";
+import { type Client, createClient } from "@libsql/client";
 import { createLogger } from "../utils/logger";
 import { EngineManager } from "../scheduler/EngineManager";
+import type { EngineConfig } from "../scheduler/AgentRunner";
 import { GateApiLocal } from "../services/gateApiLocal";
+import { CircuitBreakerStore } from "../database/circuitBreakerStore";
+import { getPaperDbClient } from "../database/paperDatabase";
+import { getCircuitBreakerConfig } from "../risk/circuitBreaker";
 
 const logger = createLogger("api-routes", "info");
 
@@ -32,6 +36,25 @@ const dbClient = createClient({
   url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
 });
 
+/**
+ * 加载引擎配置，失败时返回 null（按实盘库和全局默认阈值处理）
+ */
+async function loadEngineConfig(engineId: number): Promise<EngineConfig | null> {
+  try {
+    return await EngineManager.getInstance().getEngineConfig(engineId);
+  } catch (error: any) {
+    logger.warn(`Failed to load config for engine ${engineId}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * 引擎对应的本地记录库：模拟盘写入独立的 PAPER_DATABASE_URL，实盘为 DATABASE_URL
+ */
+function engineDb(config: EngineConfig | null): Client {
+  return config?.tradingMode === "paper" ? getPaperDbClient() : dbClient;
+}
+
 // Use a default GateApiLocal instance for fetching engine configs.
 const backendApi = new GateApiLocal("system", "system", process.env.BACKEND_API_URL || "");
 
@@ -89,12 +112,15 @@ export function createApiRoutes() {
 
       // Delete related data first (Manual Cascade Delete)
       // 注意：positions 和 trades 表已废弃，现在数据存储在 backend-base
-      const tables = ['account_history', 'trading_signals', 'agent_decisions'];
-      for (const table of tables) {
-        await dbClient.execute({
-          sql: `DELETE FROM ${table} WHERE engine_id = ?`,
-          args: [id]
-        });
+      const tables = ['account_history', 'trading_signals', 'agent_decisions', 'position_peaks', 'circuit_breakers', 'bracket_states'];
+      // 实盘和模拟盘的本地记录都要清理
+      for (const db of [dbClient, getPaperDbClient()]) {
+        for (const table of tables) {
+          await db.execute({
+            sql: `DELETE FROM ${table} WHERE engine_id = ?`,
+            args: [id]
+          });
+        }
       }
 
       // Deletion of the engine itself should be handled by backend-base
@@ -123,7 +149,7 @@ export function createApiRoutes() {
     const id = Number.parseInt(c.req.param("id"));
     try {
       // Get latest account history
-      const historyResult = await dbClient.execute({
+      const historyResult = await engineDb(await loadEngineConfig(id)).execute({
         sql: "SELECT * FROM account_history WHERE engine_id = ? ORDER BY timestamp DESC LIMIT 1",
         args: [id]
       });
@@ -145,7 +171,7 @@ export function createApiRoutes() {
   app.get("/api/engines/:id/chart", async (c) => {
     const id = Number.parseInt(c.req.param("id"));
     try {
-      const result = await dbClient.execute({
+      const result = await engineDb(await loadEngineConfig(id)).execute({
         sql: "SELECT timestamp, total_value, unrealized_pnl FROM account_history WHERE engine_id = ? ORDER BY timestamp ASC",
         args: [id]
       });
@@ -186,7 +212,7 @@ export function createApiRoutes() {
   app.get("/api/engines/:id/decisions", async (c) => {
     const id = Number.parseInt(c.req.param("id"));
     try {
-      const result = await dbClient.execute({
+      const result = await engineDb(await loadEngineConfig(id)).execute({
         sql: "SELECT * FROM agent_decisions WHERE engine_id = ? ORDER BY timestamp DESC LIMIT 5",
         args: [id]
       });
@@ -196,6 +222,65 @@ export function createApiRoutes() {
     }
   });
 
+  // 10. Get Engine Circuit Breaker
+  app.get("/api/engines/:id/circuit-breaker", async (c) => {
+    const id = Number.parseInt(c.req.param("id"));
+    try {
+      const config = await loadEngineConfig(id);
+      const breakerStore = new CircuitBreakerStore(engineDb(config));
+      const record = await breakerStore.get(id);
+      return c.json({
+        data: record || { engine_id: id, level: "normal" },
+        // 引擎实际生效的阈值（riskParams.circuitBreaker 覆盖全局默认值）
+        thresholds: getCircuitBreakerConfig(config?.riskParams),
+      });
+    } catch (error: any) {
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  // 11. Reset Engine Circuit Breaker
+  // halt 不会自动恢复，需要人工确认后复位，峰值净值从复位时刻重新计算
+  app.post("/api/engines/:id/circuit-breaker/reset", async (c) => {
+    const id = Number.parseInt(c.req.param("id"));
+    try {
+      const breakerStore = new CircuitBreakerStore(engineDb(await loadEngineConfig(id)));
+      await breakerStore.reset(id);
+      logger.warn(`Circuit breaker reset for engine ${id}`);
+      return c.json({ success: true, data: await breakerStore.get(id) });
+    } catch (error: any) {
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  // 12. Flatten an Engine
+  // 停止引擎，撤销全部挂单和触发单，reduce-only 平仓并重新读取持仓确认，返回每个合约的结果
+  app.post("/api/engines/:id/flatten", async (c) => {
+    const id = Number.parseInt(c.req.param("id"));
+    try {
+      const body = await c.req.json().catch(() => ({}));
+      const report = await EngineManager.getInstance().flattenEngine(id, body.reason || "Manual flatten via API");
+      return c.json({ success: report.flat, data: report }, report.flat ? 200 : 500);
+    } catch (error: any) {
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  // 13. Global Kill Switch
+  // 对所有运行中的引擎以及后端列出的已停止引擎执行 flatten
+  app.post("/api/kill-switch", async (c) => {
+    try {
+      const body = await c.req.json().catch(() => ({}));
+      const reason = body.reason || "Kill switch via API";
+      logger.warn(`Kill switch requested: ${reason}`);
+      const reports = await EngineManager.getInstance().killSwitch(reason);
+      const flat = reports.every((r) => r.flat);
+      return c.json({ success: flat, data: reports }, flat ? 200 : 500);
+    } catch (error: any) {
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
   return app;
 }
 
@@ -0,0 +1,190 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 历史回放回测
+ *
+ * 用虚拟时钟逐分钟推进历史行情，每一步调用 AgentRunner 的完整交易周期
+ * （collectMarketData → checkRiskAndManagePositions → generateTradingPrompt → Agent），
+ * 订单在 PaperExchange 中按回放价格成交。
+ */
+import { createClient } from "@libsql/client";
+import type { LanguageModel } from "ai";
+import { AgentRunner, type EngineConfig } from "../scheduler/AgentRunner";
+import { PaperExchange, type PaperFundingPayment } from "../services/paperExchange";
+import { ReplayMarket } from "./replayMarket";
+import type { Candle, FundingRate } from "./candleFiles";
+import { calculateMaxDrawdown, type EquityPoint } from "./metrics";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("backtester", "info");
+
+export interface BacktestOptions {
+  config: EngineConfig;
+  /** 各合约的 1 分钟 K 线 */
+  candles: Record<string, Candle[]>;
+  /** 各合约的资金费率历史（可选） */
+  fundingRates?: Record<string, FundingRate[]>;
+  /** 回测开始时间（毫秒），默认数据起点 + warmupMinutes */
+  startTime?: number;
+  /** 回测结束时间（毫秒），默认数据终点 */
+  endTime?: number;
+  /** 指标预热所需的历史分钟数，默认 1440 */
+  warmupMinutes?: number;
+  /** 每个交易周期推进的分钟数，默认 1（与实盘 cron 一致） */
+  stepMinutes?: number;
+  /** 初始资金（USDT） */
+  initialBalance?: number;
+  /** 替换模型（例如 ScriptedModel），用于离线可复现的回测 */
+  model?: LanguageModel;
+}
+
+export interface BacktestResult {
+  engineId: number;
+  startTime: number;
+  endTime: number;
+  cycles: number;
+  initialBalance: number;
+  finalEquity: number;
+  returnPercent: number;
+  maxDrawdownPercent: number;
+  equityCurve: EquityPoint[];
+  trades: any[];
+  closedPositions: any[];
+  fundingPayments: PaperFundingPayment[];
+  liquidations: any[];
+  /** 模型标识和提示词（报告使用） */
+  prompt: { model: string; instructions: string; lastPrompt?: string };
+  /** 账户止损/止盈触发导致引擎提前停止 */
+  stoppedEarly: boolean;
+}
+
+export class Backtester {
+  private readonly options: BacktestOptions;
+  private readonly market: ReplayMarket;
+  private readonly exchange: PaperExchange;
+  private readonly runner: AgentRunner;
+  private readonly initialBalance: number;
+
+  constructor(options: BacktestOptions) {
+    this.options = options;
+    this.initialBalance = options.initialBalance ?? options.config.riskParams?.paper?.initialBalance ?? 10000;
+
+    this.market = new ReplayMarket(options.candles, { fundingRates: options.fundingRates });
+    this.exchange = new PaperExchange({
+      market: this.market,
+      initialBalance: this.initialBalance,
+      now: () => this.market.now(),
+      fillModel: options.config.riskParams?.paper?.fill,
+    });
+    this.runner = new AgentRunner(options.config, {
+      client: this.exchange,
+      now: () => new Date(this.market.now()),
+      model: options.model,
+    });
+  }
+
+  /**
+   * 清理该引擎上一次回测留下的本地记录（初始资金和峰值从 account_history 读取）
+   */
+  private async resetEngineHistory() {
+    const dbClient = createClient({
+      url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+    });
+    for (const table of ["account_history", "trading_signals", "agent_decisions", "position_peaks", "circuit_breakers", "bracket_states"]) {
+      await dbClient.execute({
+        sql: `DELETE FROM ${table} WHERE engine_id = ?`,
+        args: [this.options.config.id],
+      });
+    }
+    dbClient.close();
+  }
+
+  private async getEquity() {
+    const { body } = await this.exchange.futures.listFuturesAccounts("usdt");
+    return Number.parseFloat(body.total || "0");
+  }
+
+  public async run(): Promise<BacktestResult> {
+    const range = this.market.getTimeRange();
+    const stepMs = (this.options.stepMinutes || 1) * 60000;
+    const warmupMs = (this.options.warmupMinutes ?? 1440) * 60000;
+    const startTime = Math.max(this.options.startTime ?? range.start + warmupMs, range.start);
+    const endTime = Math.min(this.options.endTime ?? range.end, range.end);
+
+    if (startTime >= endTime) {
+      throw new Error(`Empty backtest window: ${new Date(startTime).toISOString()} - ${new Date(endTime).toISOString()}`);
+    }
+
+    await this.resetEngineHistory();
+
+    logger.info(
+      `Backtest engine ${this.options.config.id}: ${new Date(startTime).toISOString()} → ${new Date(endTime).toISOString()}, step ${stepMs / 60000}m`,
+    );
+
+    const equityCurve: EquityPoint[] = [];
+    let cycles = 0;
+    let stoppedEarly = false;
+
+    this.market.setTime(startTime);
+    this.runner.start({ schedule: false });
+
+    for (let time = startTime; time <= endTime; time += stepMs) {
+      this.market.setTime(time);
+      await this.runner.runCycle();
+      cycles++;
+
+      equityCurve.push({ timestamp: time, equity: await this.getEquity() });
+
+      if (!this.runner.isActive()) {
+        logger.warn(`Engine stopped by account threshold at ${new Date(time).toISOString()}`);
+        stoppedEarly = true;
+        break;
+      }
+    }
+
+    this.runner.stop();
+
+    const trades = (await this.exchange.futures.getMyFuturesTrades("usdt", { limit: Number.MAX_SAFE_INTEGER })).body;
+    const closedPositions = (
+      await this.exchange.futures.listFuturesSettlementHistory("usdt", { limit: Number.MAX_SAFE_INTEGER })
+    ).body;
+    const liquidations = (
+      await this.exchange.futures.listFuturesLiquidatedOrders("usdt", { limit: Number.MAX_SAFE_INTEGER })
+    ).body;
+    const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : this.initialBalance;
+
+    return {
+      engineId: this.options.config.id,
+      startTime,
+      endTime: equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].timestamp : startTime,
+      cycles,
+      initialBalance: this.initialBalance,
+      finalEquity,
+      returnPercent: ((finalEquity - this.initialBalance) / this.initialBalance) * 100,
+      maxDrawdownPercent: calculateMaxDrawdown(equityCurve),
+      equityCurve,
+      trades: trades.slice().reverse(),
+      closedPositions: closedPositions.slice().reverse(),
+      fundingPayments: this.exchange.getFundingPayments(),
+      liquidations: liquidations.slice().reverse(),
+      prompt: this.runner.getPromptInfo(),
+      stoppedEarly,
+    };
+  }
+}
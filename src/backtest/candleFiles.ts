@@ -0,0 +1,198 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 历史 K 线文件读取
+ *
+ * 文件格式与 calculateIndicators 解析的 FuturesCandlestick 一致：
+ * 每行一个 {t, v, c, h, l, o, sum} 对象（JSON-lines），整个文件为 JSON 数组，
+ * 或带表头的 CSV（列名 t,v,c,h,l,o,sum，顺序不限）。
+ * 目录约定：<dataDir>/<contract>.jsonl|.json|.csv，例如 data/BTC_USDT.jsonl（1 分钟 K 线）
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * 支持的 K 线周期（秒）
+ */
+export const INTERVAL_SECONDS: Record<string, number> = {
+  "1m": 60,
+  "3m": 180,
+  "5m": 300,
+  "15m": 900,
+  "30m": 1800,
+  "1h": 3600,
+  "4h": 14400,
+  "1d": 86400,
+};
+
+/**
+ * K 线（t 为开盘时间，单位秒）
+ */
+export interface Candle {
+  t: number;
+  v: number;
+  c: string;
+  h: string;
+  l: string;
+  o: string;
+  sum: string;
+}
+
+/**
+ * 规范化单根 K 线，兼容数字和字符串字段
+ */
+export function normalizeCandle(raw: any): Candle | null {
+  if (!raw || typeof raw !== "object") return null;
+
+  // 兼容毫秒时间戳和 ISO 时间字符串
+  let t = Number(raw.t);
+  if (!Number.isFinite(t)) t = Date.parse(raw.t) / 1000;
+  if (t > 1e12) t = Math.floor(t / 1000);
+  const close = Number.parseFloat(raw.c);
+  if (!Number.isFinite(t) || !Number.isFinite(close)) return null;
+
+  return {
+    t,
+    v: Number.parseFloat(raw.v ?? "0") || 0,
+    c: String(raw.c),
+    h: String(raw.h ?? raw.c),
+    l: String(raw.l ?? raw.c),
+    o: String(raw.o ?? raw.c),
+    sum: String(raw.sum ?? "0"),
+  };
+}
+
+/**
+ * 解析带表头的 CSV，列名兼容 t/timestamp、o/open、h/high、l/low、c/close、v/volume、r/rate
+ */
+export function parseCsvRows(text: string, requiredColumns: string[] = ["t", "c"]): any[] {
+  const lines = text.trim().split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  const aliases: Record<string, string> = {
+    timestamp: "t",
+    time: "t",
+    open: "o",
+    high: "h",
+    low: "l",
+    close: "c",
+    volume: "v",
+    rate: "r",
+  };
+  const header = lines[0].split(",").map((name) => {
+    const key = name.trim().toLowerCase();
+    return aliases[key] || key;
+  });
+  const missing = requiredColumns.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV header must contain ${requiredColumns.join(", ")} columns, got: ${lines[0]}`);
+  }
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",");
+    const row: Record<string, string> = {};
+    header.forEach((key, index) => {
+      row[key] = cells[index]?.trim();
+    });
+    return row;
+  });
+}
+
+/**
+ * 解析 JSON 数组、JSON-lines 或 CSV 文本
+ */
+export function parseCandleText(text: string): Candle[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  let rows: any[];
+  if (trimmed.startsWith("[")) {
+    rows = JSON.parse(trimmed);
+  } else if (trimmed.startsWith("{")) {
+    rows = trimmed.split(/\r?\n/).filter((line) => line.trim()).map((line) => JSON.parse(line));
+  } else {
+    rows = parseCsvRows(trimmed);
+  }
+
+  return rows
+    .map(normalizeCandle)
+    .filter((c): c is Candle => c !== null)
+    .sort((a, b) => a.t - b.t);
+}
+
+/**
+ * 读取目录下各合约的 1 分钟 K 线
+ */
+export function loadCandleFiles(dataDir: string, contracts: string[]): Record<string, Candle[]> {
+  const result: Record<string, Candle[]> = {};
+
+  for (const contract of contracts) {
+    const candidates = ["jsonl", "json", "csv"].map((ext) => join(dataDir, `${contract}.${ext}`));
+    const file = candidates.find((path) => existsSync(path));
+    if (!file) {
+      throw new Error(`No candle file for ${contract} in ${dataDir}`);
+    }
+    result[contract] = parseCandleText(readFileSync(file, "utf-8"));
+  }
+
+  return result;
+}
+
+/**
+ * 资金费率记录（t 为结算时间，单位秒），与 listFuturesFundingRateHistory 返回结构一致
+ */
+export interface FundingRate {
+  t: number;
+  r: string;
+}
+
+/**
+ * 读取目录下各合约的资金费率历史（<contract>.funding.jsonl|.json|.csv，可选）
+ */
+export function loadFundingFiles(dataDir: string, contracts: string[]): Record<string, FundingRate[]> {
+  const result: Record<string, FundingRate[]> = {};
+
+  for (const contract of contracts) {
+    const candidates = ["jsonl", "json", "csv"].map((ext) => join(dataDir, `${contract}.funding.${ext}`));
+    const file = candidates.find((path) => existsSync(path));
+    if (!file) continue;
+
+    const text = readFileSync(file, "utf-8").trim();
+    let rows: any[];
+    if (text.startsWith("[")) {
+      rows = JSON.parse(text);
+    } else if (text.startsWith("{")) {
+      rows = text.split(/\r?\n/).filter((line) => line.trim()).map((line) => JSON.parse(line));
+    } else {
+      rows = parseCsvRows(text, ["t", "r"]);
+    }
+
+    result[contract] = rows
+      .map((row) => {
+        let t = Number(row.t);
+        if (!Number.isFinite(t)) t = Date.parse(row.t) / 1000;
+        if (t > 1e12) t = Math.floor(t / 1000);
+        return { t, r: String(row.r ?? row.rate ?? "0") };
+      })
+      .filter((row) => Number.isFinite(row.t))
+      .sort((a, b) => a.t - b.t);
+  }
+
+  return result;
+}
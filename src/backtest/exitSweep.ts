@@ -0,0 +1,365 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 强制平仓规则回测（不调用 LLM）
+ *
+ * 给定一组已记录的开仓（币种、方向、杠杆、开仓时间），沿 1 分钟 K 线逐根推进，
+ * 在每根 K 线收盘时用 evaluateForcedClose 判断是否平仓，对阈值网格中的每一组参数
+ * 统计盈亏、胜率和回撤。与实盘不同，这里会按收盘价追踪持仓期间的峰值盈利。
+ */
+import {
+  DEFAULT_FORCED_CLOSE_THRESHOLDS,
+  type ForcedCloseRule,
+  type ForcedCloseThresholds,
+  type PositionSide,
+  type StopLossTier,
+  type TrailingStopLevel,
+  calculatePnlPercent,
+  evaluateForcedClose,
+} from "../risk/forcedClose";
+import type { Candle } from "./candleFiles";
+import { calculateMaxDrawdown } from "./metrics";
+
+export interface RecordedEntry {
+  symbol: string;
+  side: PositionSide;
+  leverage: number;
+  /** 开仓时间（毫秒） */
+  openedAt: number;
+  /** 开仓价，缺省时取开仓前最后一根已收盘 K 线的收盘价 */
+  entryPrice?: number;
+  /** 保证金（USDT） */
+  margin?: number;
+  /** 信号强度，对应 StrategyParams.leverageRecommend 的 normal / good / strong */
+  conviction?: EntryConviction;
+}
+
+export type EntryConviction = "normal" | "good" | "strong";
+
+export interface ExitSweepGrid {
+  maxHoldingHours?: number[];
+  stopLossTiers?: StopLossTier[][];
+  trailingLadder?: TrailingStopLevel[][];
+  peakDrawdownPercent?: number[];
+  peakDrawdownMinProfitPercent?: number[];
+}
+
+export interface ExitSweepOptions {
+  /** 未指定保证金的开仓默认使用的保证金（USDT），默认 100 */
+  defaultMargin?: number;
+  /** 吃单手续费率，开平各收一次，默认 0.0005（与 AgentRunner 计算一致） */
+  feeRate?: number;
+  /** 计算回撤用的初始资金，默认 10000 */
+  initialBalance?: number;
+}
+
+export type SimulatedExitReason = ForcedCloseRule | "end_of_data";
+
+export interface SimulatedTrade {
+  symbol: string;
+  side: PositionSide;
+  leverage: number;
+  margin: number;
+  openedAt: number;
+  closedAt: number;
+  entryPrice: number;
+  exitPrice: number;
+  holdingHours: number;
+  peakPnlPercent: number;
+  pnlPercent: number;
+  fee: number;
+  /** 扣除手续费后的盈亏（USDT） */
+  pnl: number;
+  exitRule: SimulatedExitReason;
+  reason: string;
+}
+
+export interface ExitSweepResult {
+  label: string;
+  thresholds: ForcedCloseThresholds;
+  tradeCount: number;
+  winCount: number;
+  hitRate: number;
+  totalPnl: number;
+  totalFee: number;
+  avgPnl: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  avgHoldingHours: number;
+  exitsByRule: Record<string, number>;
+  trades: SimulatedTrade[];
+}
+
+/**
+ * 解析时间字段：ISO 字符串、秒或毫秒时间戳
+ */
+function parseTime(value: any): number {
+  if (typeof value === "number" || /^\d+(\.\d+)?$/.test(String(value))) {
+    const n = Number(value);
+    return n < 1e12 ? n * 1000 : n;
+  }
+  return Date.parse(String(value));
+}
+
+/**
+ * 规范化开仓记录，兼容 AgentRunner 持仓格式（symbol/side/leverage/entry_price/opened_at）
+ */
+export function normalizeEntry(raw: any): RecordedEntry | null {
+  if (!raw || typeof raw !== "object") return null;
+
+  const symbol = String(raw.symbol || raw.contract || "").replace(/_USDT$/, "");
+  const side = raw.side === "short" ? "short" : raw.side === "long" ? "long" : null;
+  const leverage = Number(raw.leverage);
+  const openedAt = parseTime(raw.openedAt ?? raw.opened_at ?? raw.time);
+  if (!symbol || !side || !(leverage > 0) || !Number.isFinite(openedAt)) return null;
+
+  const entryPrice = Number.parseFloat(raw.entryPrice ?? raw.entry_price ?? raw.price);
+  const margin = Number.parseFloat(raw.margin);
+  const conviction = raw.conviction ?? raw.signal;
+
+  return {
+    symbol,
+    side,
+    leverage,
+    openedAt,
+    entryPrice: entryPrice > 0 ? entryPrice : undefined,
+    margin: margin > 0 ? margin : undefined,
+    conviction: conviction === "good" || conviction === "strong" ? conviction : "normal",
+  };
+}
+
+/**
+ * 解析 JSON 数组或 JSON-lines 格式的开仓记录
+ */
+export function parseEntriesText(text: string): RecordedEntry[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const rows: any[] = trimmed.startsWith("[")
+    ? JSON.parse(trimmed)
+    : trimmed.split(/\r?\n/).filter((line) => line.trim()).map((line) => JSON.parse(line));
+
+  return rows
+    .map(normalizeEntry)
+    .filter((e): e is RecordedEntry => e !== null)
+    .sort((a, b) => a.openedAt - b.openedAt);
+}
+
+/**
+ * 展开阈值网格（笛卡尔积），未指定的维度使用 base 中的值
+ */
+export function expandGrid(
+  grid: ExitSweepGrid,
+  base: ForcedCloseThresholds = DEFAULT_FORCED_CLOSE_THRESHOLDS,
+): ForcedCloseThresholds[] {
+  const results: ForcedCloseThresholds[] = [];
+
+  for (const maxHoldingHours of grid.maxHoldingHours ?? [base.maxHoldingHours]) {
+    for (const stopLossTiers of grid.stopLossTiers ?? [base.stopLossTiers]) {
+      for (const trailingLadder of grid.trailingLadder ?? [base.trailingLadder]) {
+        for (const peakDrawdownPercent of grid.peakDrawdownPercent ?? [base.peakDrawdownPercent]) {
+          for (const peakDrawdownMinProfitPercent of grid.peakDrawdownMinProfitPercent ?? [
+            base.peakDrawdownMinProfitPercent,
+          ]) {
+            results.push({
+              maxHoldingHours,
+              stopLossTiers,
+              trailingLadder,
+              peakDrawdownPercent,
+              peakDrawdownMinProfitPercent,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 参数组的简短描述，例如 hold=36h sl=12x:-3/8x:-4/0x:-5 trail=25:15/15:8/8:3 dd=30%@5%
+ */
+export function describeThresholds(t: ForcedCloseThresholds) {
+  const sl = t.stopLossTiers.map((tier) => `${tier.minLeverage}x:${tier.stopLossPercent}`).join("/");
+  const trail = t.trailingLadder.map((level) => `${level.triggerPercent}:${level.stopPercent}`).join("/");
+  return `hold=${t.maxHoldingHours}h sl=${sl} trail=${trail} dd=${t.peakDrawdownPercent}%@${t.peakDrawdownMinProfitPercent}%`;
+}
+
+/**
+ * 第一根收盘时间晚于 time（毫秒）的 K 线下标
+ */
+function firstCandleClosingAfter(candles: Candle[], time: number) {
+  let lo = 0;
+  let hi = candles.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if ((candles[mid].t + 60) * 1000 <= time) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/**
+ * 模拟单笔开仓在给定阈值下的平仓结果，数据不足时返回 null
+ */
+export function simulateExit(
+  entry: RecordedEntry,
+  candles: Candle[],
+  thresholds: ForcedCloseThresholds,
+  options: ExitSweepOptions = {},
+): SimulatedTrade | null {
+  const feeRate = options.feeRate ?? 0.0005;
+  const margin = entry.margin ?? options.defaultMargin ?? 100;
+
+  const startIndex = firstCandleClosingAfter(candles, entry.openedAt);
+  if (startIndex >= candles.length) return null;
+
+  const entryPrice =
+    entry.entryPrice ??
+    (startIndex > 0 ? Number.parseFloat(candles[startIndex - 1].c) : Number.parseFloat(candles[startIndex].o));
+  if (!(entryPrice > 0)) return null;
+
+  let peakPnlPercent = Number.NEGATIVE_INFINITY;
+  let exitIndex = candles.length - 1;
+  let exitRule: SimulatedExitReason = "end_of_data";
+  let reason = "End of candle data";
+
+  for (let i = startIndex; i < candles.length; i++) {
+    const closeTime = (candles[i].t + 60) * 1000;
+    const currentPrice = Number.parseFloat(candles[i].c);
+    const pnlPercent = calculatePnlPercent(entry.side, entryPrice, currentPrice, entry.leverage);
+    peakPnlPercent = Math.max(peakPnlPercent, pnlPercent);
+
+    const decision = evaluateForcedClose(
+      {
+        side: entry.side,
+        leverage: entry.leverage,
+        entryPrice,
+        currentPrice,
+        holdingHours: (closeTime - entry.openedAt) / 3600000,
+        peakPnlPercent,
+      },
+      thresholds,
+    );
+
+    if (decision.shouldClose && decision.rule) {
+      exitIndex = i;
+      exitRule = decision.rule;
+      reason = decision.reason;
+      break;
+    }
+  }
+
+  const closedAt = (candles[exitIndex].t + 60) * 1000;
+  const exitPrice = Number.parseFloat(candles[exitIndex].c);
+  const pnlPercent = calculatePnlPercent(entry.side, entryPrice, exitPrice, entry.leverage);
+  const notional = margin * entry.leverage;
+  const fee = notional * feeRate + notional * (exitPrice / entryPrice) * feeRate;
+
+  return {
+    symbol: entry.symbol,
+    side: entry.side,
+    leverage: entry.leverage,
+    margin,
+    openedAt: entry.openedAt,
+    closedAt,
+    entryPrice,
+    exitPrice,
+    holdingHours: (closedAt - entry.openedAt) / 3600000,
+    peakPnlPercent,
+    pnlPercent,
+    fee,
+    pnl: (margin * pnlPercent) / 100 - fee,
+    exitRule,
+    reason,
+  };
+}
+
+/**
+ * 汇总一组参数下所有开仓的模拟结果
+ */
+export function summarizeTrades(
+  thresholds: ForcedCloseThresholds,
+  trades: SimulatedTrade[],
+  initialBalance = 10000,
+): ExitSweepResult {
+  const ordered = [...trades].sort((a, b) => a.closedAt - b.closedAt);
+  const totalPnl = ordered.reduce((sum, t) => sum + t.pnl, 0);
+  const winCount = ordered.filter((t) => t.pnl > 0).length;
+
+  // 按平仓时间累计已实现盈亏作为权益曲线
+  let equity = initialBalance;
+  let peak = initialBalance;
+  let maxDrawdown = 0;
+  const equityCurve = [{ timestamp: ordered[0]?.openedAt ?? 0, equity }];
+  for (const trade of ordered) {
+    equity += trade.pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    equityCurve.push({ timestamp: trade.closedAt, equity });
+  }
+
+  const exitsByRule: Record<string, number> = {};
+  for (const trade of ordered) {
+    exitsByRule[trade.exitRule] = (exitsByRule[trade.exitRule] || 0) + 1;
+  }
+
+  return {
+    label: describeThresholds(thresholds),
+    thresholds,
+    tradeCount: ordered.length,
+    winCount,
+    hitRate: ordered.length > 0 ? (winCount / ordered.length) * 100 : 0,
+    totalPnl,
+    totalFee: ordered.reduce((sum, t) => sum + t.fee, 0),
+    avgPnl: ordered.length > 0 ? totalPnl / ordered.length : 0,
+    maxDrawdown,
+    maxDrawdownPercent: calculateMaxDrawdown(equityCurve),
+    avgHoldingHours: ordered.length > 0 ? ordered.reduce((sum, t) => sum + t.holdingHours, 0) / ordered.length : 0,
+    exitsByRule,
+    trades: ordered,
+  };
+}
+
+/**
+ * 对网格中的每组参数回放全部开仓，按总盈亏从高到低排序
+ */
+export function runExitSweep(
+  entries: RecordedEntry[],
+  candles: Record<string, Candle[]>,
+  grid: ExitSweepGrid,
+  options: ExitSweepOptions = {},
+): ExitSweepResult[] {
+  const results = expandGrid(grid).map((thresholds) => {
+    const trades: SimulatedTrade[] = [];
+    for (const entry of entries) {
+      const series = candles[`${entry.symbol}_USDT`];
+      if (!series || series.length === 0) continue;
+      const trade = simulateExit(entry, series, thresholds, options);
+      if (trade) trades.push(trade);
+    }
+    return summarizeTrades(thresholds, trades, options.initialBalance);
+  });
+
+  return results.sort((a, b) => b.totalPnl - a.totalPnl);
+}
@@ -0,0 +1,118 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测绩效指标
+ */
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+/**
+ * 计算权益曲线的最大回撤（百分比）
+ */
+export function calculateMaxDrawdown(equityCurve: EquityPoint[]) {
+  let peak = Number.NEGATIVE_INFINITY;
+  let maxDrawdown = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - point.equity) / peak) * 100);
+    }
+  }
+  return maxDrawdown;
+}
+
+/**
+ * 权益曲线的逐期收益率
+ */
+export function calculatePeriodReturns(equityCurve: EquityPoint[]) {
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    if (previous > 0) returns.push(equityCurve[i].equity / previous - 1);
+  }
+  return returns;
+}
+
+/**
+ * 按权益曲线采样间隔（中位数）推算每年的期数，用于年化
+ */
+function periodsPerYear(equityCurve: EquityPoint[]) {
+  const steps = equityCurve
+    .slice(1)
+    .map((point, i) => point.timestamp - equityCurve[i].timestamp)
+    .filter((step) => step > 0)
+    .sort((a, b) => a - b);
+  if (steps.length === 0) return 0;
+  return (365 * 86400000) / steps[Math.floor(steps.length / 2)];
+}
+
+/**
+ * 年化夏普比率（无风险利率按 0 计算）
+ */
+export function calculateSharpeRatio(equityCurve: EquityPoint[]) {
+  const returns = calculatePeriodReturns(equityCurve);
+  if (returns.length < 2) return 0;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+  return std > 0 ? (mean / std) * Math.sqrt(periodsPerYear(equityCurve)) : 0;
+}
+
+/**
+ * 年化索提诺比率（只用下行波动）
+ */
+export function calculateSortinoRatio(equityCurve: EquityPoint[]) {
+  const returns = calculatePeriodReturns(equityCurve);
+  if (returns.length < 2) return 0;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / returns.length);
+  return downside > 0 ? (mean / downside) * Math.sqrt(periodsPerYear(equityCurve)) : 0;
+}
+
+/**
+ * 回撤序列（百分比，相对此前的权益峰值）
+ */
+export function calculateDrawdownSeries(equityCurve: EquityPoint[]) {
+  let peak = Number.NEGATIVE_INFINITY;
+  return equityCurve.map((point) => {
+    peak = Math.max(peak, point.equity);
+    return {
+      timestamp: point.timestamp,
+      drawdownPercent: peak > 0 ? ((peak - point.equity) / peak) * 100 : 0,
+    };
+  });
+}
+
+/**
+ * 胜率（%）和盈亏比（总盈利 / 总亏损）
+ */
+export function calculateTradeStats(pnls: number[]) {
+  const wins = pnls.filter((p) => p > 0);
+  const grossProfit = wins.reduce((sum, p) => sum + p, 0);
+  const grossLoss = -pnls.filter((p) => p < 0).reduce((sum, p) => sum + p, 0);
+  return {
+    winRate: pnls.length > 0 ? (wins.length / pnls.length) * 100 : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Number.POSITIVE_INFINITY : 0,
+    grossProfit,
+    grossLoss,
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 历史行情回放
+ *
+ * 以 1 分钟 K 线为基础，在虚拟时钟下提供 ticker、各周期 K 线、合约信息和订单簿，
+ * 作为 PaperExchange 的行情源。只返回虚拟时间之前已经收盘的数据，避免未来函数。
+ */
+import type { PaperMarketSource } from "../services/paperExchange";
+import { type Candle, type FundingRate, INTERVAL_SECONDS } from "./candleFiles";
+
+/**
+ * 常用合约的默认参数（回测时无法访问交易所，可通过 contracts 选项覆盖）
+ */
+export const DEFAULT_CONTRACT_SPECS: Record<string, any> = {
+  BTC_USDT: { quantoMultiplier: "0.0001", orderPriceRound: "0.1" },
+  ETH_USDT: { quantoMultiplier: "0.01", orderPriceRound: "0.01" },
+  SOL_USDT: { quantoMultiplier: "1", orderPriceRound: "0.001" },
+  XRP_USDT: { quantoMultiplier: "10", orderPriceRound: "0.0001" },
+};
+
+export interface ReplayMarketOptions {
+  /** 合约参数覆盖，按合约名索引 */
+  contracts?: Record<string, any>;
+  /** 资金费率历史，按合约名索引；缺省时资金费率为 0 */
+  fundingRates?: Record<string, FundingRate[]>;
+}
+
+function ok(body: any) {
+  return {
+    response: { status: 200, statusText: "OK", data: body },
+    body,
+  };
+}
+
+function notFound(message: string) {
+  const error: any = new Error("Request failed with status 404");
+  error.response = {
+    status: 404,
+    statusText: "Not Found",
+    data: { label: "CONTRACT_NOT_FOUND", message },
+    body: { label: "CONTRACT_NOT_FOUND", message },
+  };
+  return error;
+}
+
+/**
+ * 把 1 分钟 K 线聚合为更大周期（按周期对齐，最后一根可能未走完）
+ */
+export function aggregateCandles(candles: Candle[], intervalSeconds: number): Candle[] {
+  const result: Candle[] = [];
+
+  for (const candle of candles) {
+    const bucket = Math.floor(candle.t / intervalSeconds) * intervalSeconds;
+    const last = result[result.length - 1];
+
+    if (last && last.t === bucket) {
+      last.h = Math.max(Number.parseFloat(last.h), Number.parseFloat(candle.h)).toString();
+      last.l = Math.min(Number.parseFloat(last.l), Number.parseFloat(candle.l)).toString();
+      last.c = candle.c;
+      last.v += candle.v;
+      last.sum = (Number.parseFloat(last.sum) + Number.parseFloat(candle.sum)).toString();
+    } else {
+      result.push({ ...candle, t: bucket });
+    }
+  }
+
+  return result;
+}
+
+export class ReplayMarket implements PaperMarketSource {
+  private readonly candles: Record<string, Candle[]>;
+  private readonly contractSpecs: Record<string, any>;
+  private readonly fundingRates: Record<string, FundingRate[]>;
+  private currentTime = 0; // 毫秒
+
+  constructor(candles: Record<string, Candle[]>, options: ReplayMarketOptions = {}) {
+    this.candles = candles;
+    this.contractSpecs = { ...DEFAULT_CONTRACT_SPECS, ...(options.contracts || {}) };
+    this.fundingRates = options.fundingRates || {};
+  }
+
+  /**
+   * 虚拟时钟（毫秒）
+   */
+  public now() {
+    return this.currentTime;
+  }
+
+  public setTime(timestamp: number) {
+    this.currentTime = timestamp;
+  }
+
+  /**
+   * 所有合约共同覆盖的时间范围（毫秒，结束时间为最后一根 K 线收盘时刻）
+   */
+  public getTimeRange() {
+    const series = Object.values(this.candles).filter((c) => c.length > 0);
+    if (series.length === 0) {
+      throw new Error("No candles loaded for replay");
+    }
+    const start = Math.max(...series.map((c) => c[0].t));
+    const end = Math.min(...series.map((c) => c[c.length - 1].t + 60));
+    return { start: start * 1000, end: end * 1000 };
+  }
+
+  /**
+   * 虚拟时间之前已经收盘的最后一根 K 线的下标（二分查找）
+   */
+  private lastClosedIndex(contract: string) {
+    const series = this.candles[contract];
+    if (!series || series.length === 0) {
+      throw notFound(`No replay data for ${contract}`);
+    }
+
+    const nowSeconds = Math.floor(this.currentTime / 1000);
+    let lo = 0;
+    let hi = series.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (series[mid].t + 60 <= nowSeconds) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * 当前价格（最近一根已收盘 K 线的收盘价）
+   */
+  public getLastPrice(contract: string) {
+    const index = this.lastClosedIndex(contract);
+    if (index < 0) return 0;
+    return Number.parseFloat(this.candles[contract][index].c);
+  }
+
+  private buildTicker(contract: string) {
+    const series = this.candles[contract];
+    const index = this.lastClosedIndex(contract);
+    if (index < 0) {
+      throw notFound(`No replay data for ${contract} before ${new Date(this.currentTime).toISOString()}`);
+    }
+
+    const last = series[index];
+    const dayAgo = last.t - 86400;
+    let high = Number.NEGATIVE_INFINITY;
+    let low = Number.POSITIVE_INFINITY;
+    let volume = 0;
+    let open = Number.parseFloat(last.o);
+    for (let i = index; i >= 0 && series[i].t > dayAgo; i--) {
+      high = Math.max(high, Number.parseFloat(series[i].h));
+      low = Math.min(low, Number.parseFloat(series[i].l));
+      volume += series[i].v;
+      open = Number.parseFloat(series[i].o);
+    }
+
+    const close = Number.parseFloat(last.c);
+    return {
+      contract,
+      last: last.c,
+      markPrice: last.c,
+      indexPrice: last.c,
+      high24h: high.toString(),
+      low24h: low.toString(),
+      volume24h: volume.toString(),
+      changePercentage: open > 0 ? (((close - open) / open) * 100).toFixed(2) : "0",
+    };
+  }
+
+  listFuturesTickers = async (_settle: string, opts: { contract?: string } = {}) => {
+    const contracts = opts.contract ? [opts.contract] : Object.keys(this.candles);
+    return ok(contracts.map((contract) => this.buildTicker(contract)));
+  };
+
+  listFuturesCandlesticks = async (_settle: string, contract: string, opts: any = {}) => {
+    const intervalSeconds = INTERVAL_SECONDS[opts.interval || "5m"];
+    if (!intervalSeconds) {
+      throw notFound(`Unsupported interval ${opts.interval}`);
+    }
+
+    const limit = opts.limit || 100;
+    const index = this.lastClosedIndex(contract);
+    const minutesNeeded = (limit * intervalSeconds) / 60 + intervalSeconds / 60;
+    const source = this.candles[contract].slice(Math.max(0, index + 1 - minutesNeeded), index + 1);
+
+    return ok(aggregateCandles(source, intervalSeconds).slice(-limit));
+  };
+
+  /**
+   * 资金费率历史（最新在前，只包含虚拟时间之前已结算的记录）
+   */
+  listFuturesFundingRateHistory = async (_settle: string, contract: string, opts: any = {}) => {
+    const history = this.fundingRates[contract];
+    const nowSeconds = Math.floor(this.currentTime / 1000);
+    if (!history || history.length === 0) {
+      return ok([{ t: nowSeconds, r: "0" }]);
+    }
+
+    const limit = opts.limit || 100;
+    const settled = history.filter((r) => r.t <= nowSeconds);
+    return ok(settled.slice(-limit).reverse());
+  };
+
+  /**
+   * (fromMs, toMs] 内收盘的 1 分钟 K 线的最高/最低价，供模拟盘检查插针强平
+   */
+  getPriceRange = (contract: string, fromMs: number, toMs: number) => {
+    const series = this.candles[contract];
+    if (!series) return null;
+
+    let high = Number.NEGATIVE_INFINITY;
+    let low = Number.POSITIVE_INFINITY;
+    for (let i = this.lastClosedIndex(contract); i >= 0 && (series[i].t + 60) * 1000 > fromMs; i--) {
+      if ((series[i].t + 60) * 1000 > toMs) continue;
+      high = Math.max(high, Number.parseFloat(series[i].h));
+      low = Math.min(low, Number.parseFloat(series[i].l));
+    }
+    return Number.isFinite(high) ? { high, low } : null;
+  };
+
+  getFuturesContract = async (_settle: string, contract: string) => {
+    const spec = this.contractSpecs[contract];
+    if (!spec) {
+      throw notFound(`No contract spec for ${contract}`);
+    }
+    return ok({
+      name: contract,
+      orderSizeMin: 1,
+      orderSizeMax: 1000000,
+      maintenanceRate: "0.005",
+      leverageMin: "1",
+      leverageMax: "100",
+      makerFeeRate: "0.0002",
+      takerFeeRate: "0.0005",
+      markPrice: this.getLastPrice(contract).toString(),
+      ...spec,
+    });
+  };
+
+  /**
+   * 回放数据没有历史盘口，按当前价格构造一个对称的合成订单簿
+   */
+  listFuturesOrderBook = async (_settle: string, contract: string, opts: any = {}) => {
+    const price = this.getLastPrice(contract);
+    const limit = opts.limit || 10;
+    const tick = price * 0.0001;
+    const asks = [];
+    const bids = [];
+    for (let i = 1; i <= limit; i++) {
+      asks.push({ p: (price + tick * i).toString(), s: 1000 });
+      bids.push({ p: (price - tick * i).toString(), s: 1000 });
+    }
+    return ok({ current: this.currentTime / 1000, update: this.currentTime / 1000, asks, bids });
+  };
+}
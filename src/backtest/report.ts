@@ -0,0 +1,377 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测 / 模拟盘报告
+ *
+ * 每次回测或模拟盘运行结束后输出一个报告目录：
+ * - report.json：完整数据（权益曲线、回撤序列、逐笔交易、分币种盈亏、手续费、资金费、提示词和模型）
+ * - report.html：不依赖外部资源的单文件页面（内联 SVG 图表），可以直接附在 PR 中评审
+ */
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  calculateDrawdownSeries,
+  calculateMaxDrawdown,
+  calculateSharpeRatio,
+  calculateSortinoRatio,
+  calculateTradeStats,
+  type EquityPoint,
+} from "./metrics";
+
+export type RunReportKind = "backtest" | "paper";
+
+export interface RunReportInput {
+  kind: RunReportKind;
+  engineId: number;
+  engineName?: string;
+  strategy: string;
+  /** 模型标识（provider:modelId） */
+  model: string;
+  /** 系统提示词 */
+  instructions: string;
+  /** 最后一个周期的用户提示词 */
+  lastPrompt?: string;
+  startTime: number;
+  endTime: number;
+  initialBalance: number;
+  equityCurve: EquityPoint[];
+  /** 平仓记录（listFuturesSettlementHistory 格式，时间正序） */
+  closedPositions: any[];
+  /** 成交记录（getMyFuturesTrades 格式） */
+  trades: any[];
+  fundingPayments: { time: number; contract: string; payment: number }[];
+  liquidations: any[];
+}
+
+export interface ReportTrade {
+  contract: string;
+  side: "long" | "short";
+  openedAt: number;
+  closedAt: number;
+  entryPrice: number;
+  exitPrice: number;
+  size: number;
+  /** 扣除手续费和资金费后的盈亏（USDT） */
+  pnl: number;
+  text: string;
+}
+
+export interface ReportSymbolStats {
+  contract: string;
+  trades: number;
+  wins: number;
+  pnl: number;
+  fees: number;
+  funding: number;
+}
+
+export interface ReportSummary {
+  initialBalance: number;
+  finalEquity: number;
+  returnPercent: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdownPercent: number;
+  winRate: number;
+  /** 没有亏损交易时为 Infinity（JSON 中为 null） */
+  profitFactor: number;
+  tradeCount: number;
+  totalPnl: number;
+  totalFees: number;
+  totalFunding: number;
+  liquidations: number;
+}
+
+export interface RunReport {
+  kind: RunReportKind;
+  generatedAt: string;
+  engineId: number;
+  engineName?: string;
+  strategy: string;
+  model: string;
+  prompt: { instructions: string; lastPrompt?: string };
+  startTime: number;
+  endTime: number;
+  summary: ReportSummary;
+  equityCurve: EquityPoint[];
+  drawdown: { timestamp: number; drawdownPercent: number }[];
+  trades: ReportTrade[];
+  symbols: ReportSymbolStats[];
+  liquidations: any[];
+}
+
+export function buildRunReport(input: RunReportInput): RunReport {
+  const trades: ReportTrade[] = input.closedPositions.map((c) => {
+    const side = c.side === "short" ? "short" : "long";
+    const longPrice = Number.parseFloat(c.longPrice);
+    const shortPrice = Number.parseFloat(c.shortPrice);
+    return {
+      contract: c.contract,
+      side,
+      openedAt: Number(c.firstOpenTime) * 1000,
+      closedAt: Number(c.time) * 1000,
+      entryPrice: side === "long" ? longPrice : shortPrice,
+      exitPrice: side === "long" ? shortPrice : longPrice,
+      size: Number(c.maxSize) || 0,
+      pnl: Number.parseFloat(c.pnl) || 0,
+      text: c.text || "",
+    };
+  });
+
+  const symbols = new Map<string, ReportSymbolStats>();
+  const symbolOf = (contract: string) => {
+    let stats = symbols.get(contract);
+    if (!stats) {
+      stats = { contract, trades: 0, wins: 0, pnl: 0, fees: 0, funding: 0 };
+      symbols.set(contract, stats);
+    }
+    return stats;
+  };
+  for (const trade of trades) {
+    const stats = symbolOf(trade.contract);
+    stats.trades++;
+    if (trade.pnl > 0) stats.wins++;
+    stats.pnl += trade.pnl;
+  }
+  for (const fill of input.trades) {
+    symbolOf(fill.contract).fees += Number.parseFloat(fill.fee) || 0;
+  }
+  for (const payment of input.fundingPayments) {
+    symbolOf(payment.contract).funding += payment.payment;
+  }
+
+  const finalEquity =
+    input.equityCurve.length > 0 ? input.equityCurve[input.equityCurve.length - 1].equity : input.initialBalance;
+  const stats = calculateTradeStats(trades.map((t) => t.pnl));
+  const symbolList = [...symbols.values()].sort((a, b) => b.pnl - a.pnl);
+
+  return {
+    kind: input.kind,
+    generatedAt: new Date().toISOString(),
+    engineId: input.engineId,
+    engineName: input.engineName,
+    strategy: input.strategy,
+    model: input.model,
+    prompt: { instructions: input.instructions, lastPrompt: input.lastPrompt },
+    startTime: input.startTime,
+    endTime: input.endTime,
+    summary: {
+      initialBalance: input.initialBalance,
+      finalEquity,
+      returnPercent: input.initialBalance > 0 ? ((finalEquity - input.initialBalance) / input.initialBalance) * 100 : 0,
+      sharpeRatio: calculateSharpeRatio(input.equityCurve),
+      sortinoRatio: calculateSortinoRatio(input.equityCurve),
+      maxDrawdownPercent: calculateMaxDrawdown(input.equityCurve),
+      winRate: stats.winRate,
+      profitFactor: stats.profitFactor,
+      tradeCount: trades.length,
+      totalPnl: trades.reduce((sum, t) => sum + t.pnl, 0),
+      totalFees: symbolList.reduce((sum, s) => sum + s.fees, 0),
+      totalFunding: symbolList.reduce((sum, s) => sum + s.funding, 0),
+      liquidations: input.liquidations.length,
+    },
+    equityCurve: input.equityCurve,
+    drawdown: calculateDrawdownSeries(input.equityCurve),
+    trades,
+    symbols: symbolList,
+    liquidations: input.liquidations,
+  };
+}
+
+function escapeHtml(value: unknown) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatTime(ms: number) {
+  return new Date(ms).toISOString().slice(0, 19).replace("T", " ");
+}
+
+function formatNumber(value: number, digits = 2) {
+  if (value === Number.POSITIVE_INFINITY) return "∞";
+  return Number.isFinite(value) ? value.toFixed(digits) : "-";
+}
+
+function signClass(value: number) {
+  return value > 0 ? "pos" : value < 0 ? "neg" : "";
+}
+
+/**
+ * 折线图（内联 SVG），点数过多时按步长抽样
+ */
+function renderLineChart(points: { x: number; y: number }[], options: { color: string; fill?: boolean; unit: string }) {
+  const width = 960;
+  const height = 240;
+  const pad = 48;
+  if (points.length < 2) return `<p class="muted">数据不足</p>`;
+
+  const stride = Math.ceil(points.length / 1000);
+  const sampled = points.filter((_, i) => i % stride === 0 || i === points.length - 1);
+  const xs = sampled.map((p) => p.x);
+  const ys = sampled.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  let minY = Math.min(...ys);
+  let maxY = Math.max(...ys);
+  if (minY === maxY) {
+    minY -= 1;
+    maxY += 1;
+  }
+
+  const sx = (x: number) => pad + ((x - minX) / Math.max(maxX - minX, 1)) * (width - pad * 2);
+  const sy = (y: number) => height - pad + ((minY - y) / (maxY - minY)) * (height - pad * 2);
+  const path = sampled.map((p, i) => `${i === 0 ? "M" : "L"}${sx(p.x).toFixed(1)},${sy(p.y).toFixed(1)}`).join(" ");
+  const area = options.fill
+    ? `<path d="${path} L${sx(maxX).toFixed(1)},${sy(minY).toFixed(1)} L${sx(minX).toFixed(1)},${sy(minY).toFixed(1)} Z" fill="${options.color}" opacity="0.15"/>`
+    : "";
+
+  return `<svg viewBox="0 0 ${width} ${height}" class="chart">
+  <line x1="${pad}" y1="${height - pad}" x2="${width - pad}" y2="${height - pad}" stroke="#ccc"/>
+  <line x1="${pad}" y1="${pad}" x2="${pad}" y2="${height - pad}" stroke="#ccc"/>
+  <text x="4" y="${pad + 4}">${formatNumber(maxY)}${options.unit}</text>
+  <text x="4" y="${height - pad}">${formatNumber(minY)}${options.unit}</text>
+  <text x="${pad}" y="${height - pad + 20}">${formatTime(minX)}</text>
+  <text x="${width - pad}" y="${height - pad + 20}" text-anchor="end">${formatTime(maxX)}</text>
+  ${area}
+  <path d="${path}" fill="none" stroke="${options.color}" stroke-width="1.5"/>
+</svg>`;
+}
+
+/**
+ * 渲染单文件 HTML 报告
+ */
+export function renderReportHtml(report: RunReport) {
+  const s = report.summary;
+  const title = `${report.kind === "backtest" ? "回测" : "模拟盘"}报告 - 引擎 ${report.engineId} (${report.strategy})`;
+
+  const summaryRows: [string, string, number?][] = [
+    ["区间", `${formatTime(report.startTime)} → ${formatTime(report.endTime)}`],
+    ["模型", report.model],
+    ["初始资金", `${formatNumber(s.initialBalance)} USDT`],
+    ["最终权益", `${formatNumber(s.finalEquity)} USDT`],
+    ["收益率", `${formatNumber(s.returnPercent)}%`, s.returnPercent],
+    ["夏普比率", formatNumber(s.sharpeRatio)],
+    ["索提诺比率", formatNumber(s.sortinoRatio)],
+    ["最大回撤", `${formatNumber(s.maxDrawdownPercent)}%`],
+    ["胜率", `${formatNumber(s.winRate, 1)}% (${s.tradeCount} 笔)`],
+    ["盈亏比", formatNumber(s.profitFactor)],
+    ["平仓盈亏", `${formatNumber(s.totalPnl)} USDT`, s.totalPnl],
+    ["手续费", `${formatNumber(s.totalFees)} USDT`],
+    ["资金费", `${formatNumber(s.totalFunding)} USDT`, s.totalFunding],
+    ["强平次数", String(s.liquidations)],
+  ];
+
+  const symbolRows = report.symbols
+    .map(
+      (sym) => `<tr><td>${escapeHtml(sym.contract)}</td><td>${sym.trades}</td><td>${sym.wins}</td>
+<td class="${signClass(sym.pnl)}">${formatNumber(sym.pnl)}</td><td>${formatNumber(sym.fees)}</td>
+<td class="${signClass(sym.funding)}">${formatNumber(sym.funding)}</td></tr>`,
+    )
+    .join("\n");
+
+  const tradeRows = report.trades
+    .map(
+      (t, i) => `<tr><td>${i + 1}</td><td>${escapeHtml(t.contract)}</td><td>${t.side === "long" ? "多" : "空"}</td>
+<td>${formatTime(t.openedAt)}</td><td>${formatTime(t.closedAt)}</td><td>${formatNumber(t.entryPrice, 4)}</td>
+<td>${formatNumber(t.exitPrice, 4)}</td><td>${t.size}</td><td class="${signClass(t.pnl)}">${formatNumber(t.pnl)}</td>
+<td>${escapeHtml(t.text)}</td></tr>`,
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", "PingFang SC", sans-serif; margin: 24px auto; max-width: 1040px; color: #222; }
+  h1 { font-size: 20px; } h2 { font-size: 16px; margin-top: 32px; border-bottom: 1px solid #eee; padding-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { border-bottom: 1px solid #eee; padding: 4px 8px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  .summary td:first-child { color: #666; width: 160px; }
+  .summary td { text-align: left; }
+  .pos { color: #0a8f4e; } .neg { color: #d0342c; } .muted { color: #999; }
+  .chart { width: 100%; height: auto; font-size: 11px; fill: #666; }
+  pre { white-space: pre-wrap; background: #f7f7f7; padding: 12px; font-size: 12px; max-height: 480px; overflow: auto; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">生成时间 ${escapeHtml(report.generatedAt)}${report.engineName ? ` · ${escapeHtml(report.engineName)}` : ""}</p>
+
+<h2>概览</h2>
+<table class="summary">
+${summaryRows.map(([label, value, sign]) => `<tr><td>${label}</td><td class="${sign === undefined ? "" : signClass(sign)}">${escapeHtml(value)}</td></tr>`).join("\n")}
+</table>
+
+<h2>权益曲线</h2>
+${renderLineChart(
+  report.equityCurve.map((p) => ({ x: p.timestamp, y: p.equity })),
+  { color: "#2f6fde", unit: "" },
+)}
+
+<h2>回撤</h2>
+${renderLineChart(
+  report.drawdown.map((p) => ({ x: p.timestamp, y: -p.drawdownPercent })),
+  { color: "#d0342c", fill: true, unit: "%" },
+)}
+
+<h2>分币种</h2>
+<table>
+<tr><th>合约</th><th>交易数</th><th>盈利笔数</th><th>盈亏</th><th>手续费</th><th>资金费</th></tr>
+${symbolRows || `<tr><td colspan="6" class="muted">无</td></tr>`}
+</table>
+
+<h2>交易明细</h2>
+<table>
+<tr><th>#</th><th>合约</th><th>方向</th><th>开仓时间</th><th>平仓时间</th><th>开仓价</th><th>平仓价</th><th>最大张数</th><th>盈亏</th><th>备注</th></tr>
+${tradeRows || `<tr><td colspan="10" class="muted">无</td></tr>`}
+</table>
+
+<h2>提示词</h2>
+<details><summary>系统提示词</summary><pre>${escapeHtml(report.prompt.instructions)}</pre></details>
+${report.prompt.lastPrompt ? `<details><summary>最后一个周期的提示词</summary><pre>${escapeHtml(report.prompt.lastPrompt)}</pre></details>` : ""}
+</body>
+</html>
+`;
+}
+
+/**
+ * 默认报告目录：REPORTS_DIR（默认 ./reports）下按类型、引擎和时间命名
+ */
+export function defaultReportDir(kind: RunReportKind, engineId: number, time = new Date()) {
+  const stamp = time.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  return join(process.env.REPORTS_DIR || "./reports", `${kind}-engine${engineId}-${stamp}`);
+}
+
+/**
+ * 写入报告目录，返回 JSON 和 HTML 文件路径
+ */
+export function writeReportBundle(report: RunReport, dir: string) {
+  mkdirSync(dir, { recursive: true });
+  const jsonPath = join(dir, "report.json");
+  const htmlPath = join(dir, "report.html");
+  writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+  writeFileSync(htmlPath, renderReportHtml(report));
+  return { jsonPath, htmlPath };
+}
@@ -0,0 +1,160 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 回测命令行入口
+ *
+ * 用法：
+ *   npm run backtest -- --data ./data --symbols BTC,ETH --strategy balanced \
+ *     --model deepseek/deepseek-v3.2-exp --start 2025-01-01T00:00:00Z --end 2025-01-02T00:00:00Z
+ *
+ * --source db 时从本地 candles 表读取 1 分钟 K 线（先用 npm run db:import-candles 导入），
+ * 默认从 --data 目录读取文件。资金费率历史可放在 --data 目录下的 <contract>.funding.jsonl（{t, r}），
+ * 缺省时资金费率按 0 计算。
+ * 成交模型（手续费 / 滑点 / 延迟）通过 --config 文件的 riskParams.paper.fill 配置，见 services/fillModel。
+ * --script 指定脚本化模型的 fixture 文件（见 services/scriptedModel），回测不再调用真实 LLM。
+ *
+ * 每次回测都会输出报告目录（report.json + report.html），默认 REPORTS_DIR/backtest-engine<id>-<时间>，
+ * 可用 --report 指定目录。
+ *
+ * 回测默认写入独立数据库 BACKTEST_DATABASE_URL（默认 ./.voltagent/backtest.db），不影响实盘记录。
+ */
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { createClient } from "@libsql/client";
+
+const { values } = parseArgs({
+  options: {
+    data: { type: "string", default: "./data" },
+    source: { type: "string", default: "files" },
+    config: { type: "string" },
+    symbols: { type: "string" },
+    strategy: { type: "string", default: "balanced" },
+    model: { type: "string" },
+    start: { type: "string" },
+    end: { type: "string" },
+    step: { type: "string", default: "1" },
+    warmup: { type: "string", default: "1440" },
+    balance: { type: "string", default: "10000" },
+    out: { type: "string" },
+    script: { type: "string" },
+    report: { type: "string" },
+  },
+});
+
+// AgentRunner 在加载时创建数据库连接，必须先切换到回测库再导入
+process.env.DATABASE_URL = process.env.BACKTEST_DATABASE_URL || "file:./.voltagent/backtest.db";
+mkdirSync("./.voltagent", { recursive: true });
+if (values.script) {
+  process.env.SCRIPTED_MODEL_FIXTURE = values.script;
+}
+
+const { initDatabase } = await import("../database/init");
+const { Backtester } = await import("./backtester");
+const { loadCandleFiles, loadFundingFiles } = await import("./candleFiles");
+const { CandleStore } = await import("../database/candleStore");
+const { buildRunReport, defaultReportDir, writeReportBundle } = await import("./report");
+
+// 引擎配置：可从 JSON 文件读取（与后端 engine 配置同结构），命令行参数覆盖
+const fileConfig = values.config ? JSON.parse(readFileSync(values.config, "utf-8")) : {};
+const symbols: string[] = values.symbols
+  ? values.symbols.split(",").map((s) => s.trim()).filter(Boolean)
+  : fileConfig.riskParams?.symbols || ["BTC", "ETH", "SOL", "XRP"];
+
+const config = {
+  id: fileConfig.id ?? 0,
+  name: fileConfig.name || "backtest",
+  apiKey: "",
+  apiSecret: "",
+  modelName: values.model || fileConfig.modelName || "",
+  strategy: fileConfig.strategy || values.strategy,
+  riskParams: { ...(fileConfig.riskParams || {}), symbols },
+  tradingMode: "paper" as const,
+};
+
+await initDatabase();
+
+const startTime = values.start ? Date.parse(values.start) : undefined;
+const endTime = values.end ? Date.parse(values.end) : undefined;
+const warmupMinutes = Number.parseInt(values.warmup as string, 10);
+const contracts = symbols.map((s) => `${s}_USDT`);
+
+let candles: Record<string, any[]>;
+if (values.source === "db") {
+  // 回测库和行情库可以不同：K 线默认从主库读取
+  const store = new CandleStore(
+    createClient({ url: process.env.CANDLES_DATABASE_URL || "file:./.voltagent/trading.db" }),
+  );
+  candles = await store.getSeries(contracts, "1m", {
+    from: startTime !== undefined ? Math.floor(startTime / 1000) - warmupMinutes * 60 : undefined,
+    to: endTime !== undefined ? Math.floor(endTime / 1000) : undefined,
+  });
+  store.close();
+} else {
+  candles = loadCandleFiles(values.data as string, contracts);
+}
+
+const backtester = new Backtester({
+  config,
+  candles,
+  fundingRates: loadFundingFiles(values.data as string, contracts),
+  startTime,
+  endTime,
+  stepMinutes: Number.parseInt(values.step as string, 10),
+  warmupMinutes,
+  initialBalance: Number.parseFloat(values.balance as string),
+});
+
+const result = await backtester.run();
+
+console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+console.log(`回测区间: ${new Date(result.startTime).toISOString()} → ${new Date(result.endTime).toISOString()}`);
+console.log(`执行周期: ${result.cycles}${result.stoppedEarly ? "（账户阈值触发，提前停止）" : ""}`);
+console.log(`初始资金: ${result.initialBalance.toFixed(2)} USDT`);
+console.log(`最终权益: ${result.finalEquity.toFixed(2)} USDT`);
+console.log(`收益率: ${result.returnPercent.toFixed(2)}%`);
+console.log(`最大回撤: ${result.maxDrawdownPercent.toFixed(2)}%`);
+console.log(`成交笔数: ${result.trades.length}, 平仓次数: ${result.closedPositions.length}, 强平次数: ${result.liquidations.length}`);
+console.log(`资金费: ${result.fundingPayments.reduce((sum, f) => sum + f.payment, 0).toFixed(2)} USDT`);
+console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+if (values.out) {
+  writeFileSync(values.out, JSON.stringify(result, null, 2));
+  console.log(`结果已写入 ${values.out}`);
+}
+
+const report = buildRunReport({
+  kind: "backtest",
+  engineId: config.id,
+  engineName: config.name,
+  strategy: config.strategy,
+  ...result.prompt,
+  startTime: result.startTime,
+  endTime: result.endTime,
+  initialBalance: result.initialBalance,
+  equityCurve: result.equityCurve,
+  closedPositions: result.closedPositions,
+  trades: result.trades,
+  fundingPayments: result.fundingPayments,
+  liquidations: result.liquidations,
+});
+const { htmlPath } = writeReportBundle(report, values.report || defaultReportDir("backtest", config.id));
+console.log(`夏普比率: ${report.summary.sharpeRatio.toFixed(2)}, 索提诺比率: ${report.summary.sortinoRatio.toFixed(2)}`);
+console.log(`报告已写入 ${htmlPath}`);
+
+process.exit(0);
@@ -0,0 +1,135 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 强制平仓规则参数扫描命令行入口
+ *
+ * 用法：
+ *   npm run backtest:exits -- --entries ./data/entries.jsonl --data ./data \
+ *     --hold 24,36,48 --stop 3/4/5,2/3/4 --trail 25:15/15:8/8:3,20:12/10:5 --drawdown 20,30,40
+ *
+ * 参数说明（逗号分隔多组取值，各维度做笛卡尔积）：
+ *   --hold      最大持仓小时数
+ *   --stop      止损档位，"12:3/8:4/0:5" 表示杠杆>=12 止损 -3%…；省略杠杆时按 12/8/0 依次对应
+ *   --trail     移动止盈阶梯，"触发盈利:止盈线"，用 / 分隔档位
+ *   --drawdown  峰值回撤比例（%）
+ *   --min-profit 启用峰值回撤保护的最低峰值盈利（%）
+ *   --grid      JSON 文件形式的网格（ExitSweepGrid），命令行参数覆盖同名维度
+ *   --source    K 线来源：files（--data 目录，默认）或 db（本地 candles 表）
+ *
+ * 开仓记录每行一个 {symbol, side, leverage, openedAt, entryPrice?, margin?}
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { CandleStore } from "../database/candleStore";
+import { DEFAULT_FORCED_CLOSE_THRESHOLDS, type StopLossTier, type TrailingStopLevel } from "../risk/forcedClose";
+import { loadCandleFiles } from "./candleFiles";
+import { type ExitSweepGrid, parseEntriesText, runExitSweep } from "./exitSweep";
+
+const { values } = parseArgs({
+  options: {
+    entries: { type: "string" },
+    data: { type: "string", default: "./data" },
+    source: { type: "string", default: "files" },
+    grid: { type: "string" },
+    hold: { type: "string" },
+    stop: { type: "string" },
+    trail: { type: "string" },
+    drawdown: { type: "string" },
+    "min-profit": { type: "string" },
+    margin: { type: "string", default: "100" },
+    fee: { type: "string", default: "0.0005" },
+    balance: { type: "string", default: "10000" },
+    top: { type: "string", default: "20" },
+    out: { type: "string" },
+  },
+});
+
+if (!values.entries) {
+  console.error("缺少 --entries 参数（开仓记录文件）");
+  process.exit(1);
+}
+
+function parseNumberList(value: string) {
+  return value.split(",").map((s) => Number.parseFloat(s.trim())).filter((n) => Number.isFinite(n));
+}
+
+function parseStopTiers(value: string): StopLossTier[][] {
+  const defaultLeverages = DEFAULT_FORCED_CLOSE_THRESHOLDS.stopLossTiers.map((tier) => tier.minLeverage);
+  return value.split(",").map((group) =>
+    group.split("/").map((item, index) => {
+      const [lev, pct] = item.includes(":") ? item.split(":") : [String(defaultLeverages[index] ?? 0), item];
+      return { minLeverage: Number.parseFloat(lev), stopLossPercent: -Math.abs(Number.parseFloat(pct)) };
+    }),
+  );
+}
+
+function parseTrailLadders(value: string): TrailingStopLevel[][] {
+  return value.split(",").map((group) =>
+    group.split("/").map((item) => {
+      const [trigger, stop] = item.split(":");
+      return { triggerPercent: Number.parseFloat(trigger), stopPercent: Number.parseFloat(stop) };
+    }),
+  );
+}
+
+const grid: ExitSweepGrid = values.grid ? JSON.parse(readFileSync(values.grid, "utf-8")) : {};
+if (values.hold) grid.maxHoldingHours = parseNumberList(values.hold);
+if (values.stop) grid.stopLossTiers = parseStopTiers(values.stop);
+if (values.trail) grid.trailingLadder = parseTrailLadders(values.trail);
+if (values.drawdown) grid.peakDrawdownPercent = parseNumberList(values.drawdown);
+if (values["min-profit"]) grid.peakDrawdownMinProfitPercent = parseNumberList(values["min-profit"]);
+
+const entries = parseEntriesText(readFileSync(values.entries, "utf-8"));
+const symbols = [...new Set(entries.map((e) => e.symbol))];
+const contracts = symbols.map((s) => `${s}_USDT`);
+
+let candles: Record<string, any[]>;
+if (values.source === "db") {
+  const store = new CandleStore();
+  candles = await store.getSeries(contracts, "1m", { from: Math.floor(entries[0].openedAt / 1000) - 60 });
+  store.close();
+} else {
+  candles = loadCandleFiles(values.data as string, contracts);
+}
+
+const initialBalance = Number.parseFloat(values.balance as string);
+const results = runExitSweep(entries, candles, grid, {
+  defaultMargin: Number.parseFloat(values.margin as string),
+  feeRate: Number.parseFloat(values.fee as string),
+  initialBalance,
+});
+
+const top = Number.parseInt(values.top as string, 10);
+console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+console.log(`开仓记录: ${entries.length}, 参数组合: ${results.length}`);
+console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+for (const [index, r] of results.slice(0, top).entries()) {
+  const exits = Object.entries(r.exitsByRule).map(([rule, count]) => `${rule}=${count}`).join(" ");
+  console.log(`#${index + 1} ${r.label}`);
+  console.log(
+    `   盈亏 ${r.totalPnl.toFixed(2)} USDT | 胜率 ${r.hitRate.toFixed(1)}% (${r.winCount}/${r.tradeCount}) | ` +
+      `最大回撤 ${r.maxDrawdown.toFixed(2)} USDT (${r.maxDrawdownPercent.toFixed(2)}%) | ` +
+      `平均持仓 ${r.avgHoldingHours.toFixed(1)}h | 手续费 ${r.totalFee.toFixed(2)} | ${exits}`,
+  );
+}
+
+if (values.out) {
+  writeFileSync(values.out, JSON.stringify(results, null, 2));
+  console.log(`结果已写入 ${values.out}`);
+}
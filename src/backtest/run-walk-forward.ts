@@ -0,0 +1,178 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * StrategyParams walk-forward 优化命令行入口
+ *
+ * 用法：
+ *   npm run backtest:walk-forward -- --entries ./data/entries.jsonl --data ./data \
+ *     --train 14 --test 7 --strategy conservative,balanced,aggressive
+ *
+ * 参数说明：
+ *   --train      训练窗口（天）
+ *   --test       测试窗口（天），同时是滚动步长
+ *   --strategy   要优化的策略，逗号分隔，默认全部
+ *   --leverage   杠杆区间平移量，如 "-6,-3,0,3"
+ *   --size       仓位区间平移量（%），如 "-5,0,5"
+ *   --stop-scale 止损档位缩放系数，如 "0.75,1,1.25"
+ *   --objective  训练窗口目标：pnl（默认）或 calmar（盈亏 / 最大回撤）
+ *   --source     K 线来源：files（--data 目录，默认）或 db（本地 candles 表）
+ *
+ * 开仓记录每行一个 {symbol, side, openedAt, conviction?, entryPrice?}，
+ * conviction 为 normal / good / strong，决定在参数区间中取下限、中值还是上限。
+ *
+ * 注意：候选参数只在固定的开仓记录上模拟出场，不经过 Backtester 的历史回放（不调用模型，
+ * 不含开仓风控、熔断和资金费率），输出只用于比较参数的相对表现。
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import type { TradingStrategy } from "../agents/tradingAgent";
+import { CandleStore } from "../database/candleStore";
+import { loadCandleFiles } from "./candleFiles";
+import { parseEntriesText } from "./exitSweep";
+import {
+  describeParams,
+  runWalkForward,
+  type StrategyParamGrid,
+  type WalkForwardMetrics,
+  type WalkForwardObjective,
+  type WalkForwardResult,
+} from "./walkForward";
+
+const { values } = parseArgs({
+  options: {
+    entries: { type: "string" },
+    data: { type: "string", default: "./data" },
+    source: { type: "string", default: "files" },
+    train: { type: "string", default: "14" },
+    test: { type: "string", default: "7" },
+    strategy: { type: "string", default: "conservative,balanced,aggressive" },
+    leverage: { type: "string" },
+    size: { type: "string" },
+    "stop-scale": { type: "string" },
+    objective: { type: "string", default: "pnl" },
+    "min-trades": { type: "string", default: "1" },
+    fee: { type: "string", default: "0.0005" },
+    balance: { type: "string", default: "10000" },
+    out: { type: "string" },
+  },
+});
+
+if (!values.entries) {
+  console.error("缺少 --entries 参数（开仓记录文件）");
+  process.exit(1);
+}
+
+function parseNumberList(value: string) {
+  return value.split(",").map((s) => Number.parseFloat(s.trim())).filter((n) => Number.isFinite(n));
+}
+
+const strategies = (values.strategy as string).split(",").map((s) => s.trim()) as TradingStrategy[];
+for (const strategy of strategies) {
+  if (!["conservative", "balanced", "aggressive"].includes(strategy)) {
+    console.error(`未知策略: ${strategy}`);
+    process.exit(1);
+  }
+}
+
+const objective = values.objective as WalkForwardObjective;
+if (objective !== "pnl" && objective !== "calmar") {
+  console.error(`未知优化目标: ${objective}`);
+  process.exit(1);
+}
+
+const grid: StrategyParamGrid = {};
+if (values.leverage) grid.leverageShifts = parseNumberList(values.leverage);
+if (values.size) grid.positionSizeShifts = parseNumberList(values.size);
+if (values["stop-scale"]) grid.stopLossScales = parseNumberList(values["stop-scale"]);
+
+const entries = parseEntriesText(readFileSync(values.entries, "utf-8"));
+if (entries.length === 0) {
+  console.error("开仓记录为空");
+  process.exit(1);
+}
+const contracts = [...new Set(entries.map((e) => `${e.symbol}_USDT`))];
+
+let candles: Record<string, any[]>;
+if (values.source === "db") {
+  const store = new CandleStore();
+  candles = await store.getSeries(contracts, "1m", { from: Math.floor(entries[0].openedAt / 1000) - 60 });
+  store.close();
+} else {
+  candles = loadCandleFiles(values.data as string, contracts);
+}
+
+const options = {
+  trainDays: Number.parseFloat(values.train as string),
+  testDays: Number.parseFloat(values.test as string),
+  grid,
+  objective,
+  minTrainTrades: Number.parseInt(values["min-trades"] as string, 10),
+  feeRate: Number.parseFloat(values.fee as string),
+  initialBalance: Number.parseFloat(values.balance as string),
+};
+
+function formatMetrics(m: WalkForwardMetrics) {
+  return (
+    `盈亏 ${m.totalPnl.toFixed(2)} USDT | 胜率 ${m.hitRate.toFixed(1)}% (${m.winCount}/${m.tradeCount}) | ` +
+    `最大回撤 ${m.maxDrawdown.toFixed(2)} USDT (${m.maxDrawdownPercent.toFixed(2)}%) | 手续费 ${m.totalFee.toFixed(2)}`
+  );
+}
+
+function formatDate(ms: number) {
+  return new Date(ms).toISOString().slice(0, 16).replace("T", " ");
+}
+
+const results: WalkForwardResult[] = [];
+console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+console.log(`开仓记录: ${entries.length}, 训练 ${options.trainDays} 天 / 测试 ${options.testDays} 天, 目标 ${objective}`);
+console.log("注意: 仅用记录的开仓模拟出场，未经过 Backtester 历史回放（不调用模型，不含开仓风控、熔断和资金费率），");
+console.log("      结果只用于比较参数的相对表现，上线前请用 backtest 命令验证推荐参数。");
+
+for (const strategy of strategies) {
+  const result = runWalkForward(strategy, entries, candles, options);
+  results.push(result);
+
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(`策略 ${strategy}，窗口数 ${result.windows.length}`);
+  console.log(`  原始参数: ${describeParams(result.base)}`);
+  for (const [index, w] of result.windows.entries()) {
+    console.log(`  窗口 #${index + 1} 测试 ${formatDate(w.testStart)} → ${formatDate(w.testEnd)}`);
+    console.log(`    选中: ${describeParams(w.selected)}`);
+    console.log(`    训练: ${formatMetrics(w.trainMetrics)}`);
+    console.log(`    测试: ${formatMetrics(w.testMetrics)}`);
+    console.log(`    原始: ${formatMetrics(w.baselineTestMetrics)}`);
+  }
+  if (result.recommended && result.recommendedOutOfSample) {
+    const unchanged = describeParams(result.recommended) === describeParams(result.base);
+    console.log(`  推荐参数（按全部测试窗口的样本外 ${objective} 选取）: ${describeParams(result.recommended)}${unchanged ? "（保持原始参数）" : ""}`);
+    console.log(`    样本外: ${formatMetrics(result.recommendedOutOfSample)}`);
+  } else {
+    console.log("  推荐参数: 无（训练数据不足）");
+  }
+  for (const [label, count] of Object.entries(result.selectionCounts).sort((a, b) => b[1] - a[1])) {
+    console.log(`    ${label} 被选中 ${count} 次`);
+  }
+  console.log(`  样本外（逐窗口选参）: ${formatMetrics(result.outOfSample)}`);
+  console.log(`  样本外（原始）: ${formatMetrics(result.baselineOutOfSample)}`);
+}
+
+if (values.out) {
+  writeFileSync(values.out, JSON.stringify(results, null, 2));
+  console.log(`结果已写入 ${values.out}`);
+}
@@ -0,0 +1,352 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * StrategyParams 滚动窗口（walk-forward）优化
+ *
+ * 用已记录的开仓信号（方向 + 信号强度）在历史 K 线上回放：
+ * - 杠杆和仓位按 StrategyParams 的区间和信号强度选取（普通取下限、良好取中值、强信号取上限）
+ * - 止损按提示词中的杠杆分档（stopLoss.low / mid / high），其余强制平仓规则使用默认阈值
+ * 在每个训练窗口中选出目标值最高的参数组合，再在紧随其后的测试窗口上评估样本外表现。
+ * 推荐参数取各窗口选中过的参数（以及原始参数）中，拼接全部测试窗口后样本外目标值最高的一组。
+ *
+ * 局限：这里只按固定的开仓记录模拟出场，不经过 Backtester 的历史回放 —— 不调用模型，
+ * 开仓不受参数影响，也不含开仓风控、熔断、资金费率和强平，结果只用于比较参数的相对表现。
+ */
+import { getStrategyParams, type StrategyParams, type TradingStrategy } from "../agents/tradingAgent";
+import { RISK_PARAMS } from "../config/riskParams";
+import { DEFAULT_FORCED_CLOSE_THRESHOLDS, type ForcedCloseThresholds } from "../risk/forcedClose";
+import type { Candle } from "./candleFiles";
+import {
+  type ExitSweepResult,
+  type RecordedEntry,
+  type SimulatedTrade,
+  simulateExit,
+  summarizeTrades,
+} from "./exitSweep";
+
+/**
+ * 可优化的 StrategyParams 字段
+ */
+export type TunableStrategyParams = Pick<
+  StrategyParams,
+  "leverageMin" | "leverageMax" | "positionSizeMin" | "positionSizeMax" | "stopLoss"
+>;
+
+export interface StrategyParamGrid {
+  /** 杠杆区间整体平移量 */
+  leverageShifts?: number[];
+  /** 仓位区间（%）整体平移量 */
+  positionSizeShifts?: number[];
+  /** 止损档位缩放系数 */
+  stopLossScales?: number[];
+}
+
+export type WalkForwardObjective = "pnl" | "calmar";
+
+export interface WalkForwardOptions {
+  /** 训练窗口（天） */
+  trainDays: number;
+  /** 测试窗口（天），也是窗口滚动步长 */
+  testDays: number;
+  grid?: StrategyParamGrid;
+  objective?: WalkForwardObjective;
+  initialBalance?: number;
+  feeRate?: number;
+  /** 训练窗口至少需要的交易数，不足时跳过该窗口 */
+  minTrainTrades?: number;
+}
+
+export interface WalkForwardWindow {
+  trainStart: number;
+  trainEnd: number;
+  testStart: number;
+  testEnd: number;
+  selected: TunableStrategyParams;
+  trainMetrics: WalkForwardMetrics;
+  testMetrics: WalkForwardMetrics;
+  baselineTestMetrics: WalkForwardMetrics;
+}
+
+export type WalkForwardMetrics = Omit<ExitSweepResult, "trades" | "thresholds" | "label">;
+
+export interface WalkForwardResult {
+  strategy: TradingStrategy;
+  base: TunableStrategyParams;
+  /** 拼接全部测试窗口后样本外目标值最高的参数（原始参数同样参与比较，持平时保留原始参数） */
+  recommended: TunableStrategyParams | null;
+  /** 推荐参数在全部测试窗口上的样本外表现 */
+  recommendedOutOfSample: WalkForwardMetrics | null;
+  /** 各参数组合被选中的次数 */
+  selectionCounts: Record<string, number>;
+  windows: WalkForwardWindow[];
+  /** 拼接所有测试窗口的样本外表现 */
+  outOfSample: WalkForwardMetrics;
+  /** 原始参数在同样测试窗口上的表现 */
+  baselineOutOfSample: WalkForwardMetrics;
+}
+
+const DEFAULT_GRID: Required<StrategyParamGrid> = {
+  leverageShifts: [-6, -3, 0, 3],
+  positionSizeShifts: [-5, 0, 5],
+  stopLossScales: [0.75, 1, 1.25],
+};
+
+export function pickTunable(params: StrategyParams): TunableStrategyParams {
+  return {
+    leverageMin: params.leverageMin,
+    leverageMax: params.leverageMax,
+    positionSizeMin: params.positionSizeMin,
+    positionSizeMax: params.positionSizeMax,
+    stopLoss: { ...params.stopLoss },
+  };
+}
+
+export function describeParams(p: TunableStrategyParams) {
+  return `lev=${p.leverageMin}-${p.leverageMax} size=${p.positionSizeMin}-${p.positionSizeMax}% sl=${p.stopLoss.low}/${p.stopLoss.mid}/${p.stopLoss.high}`;
+}
+
+/**
+ * 以策略原始参数为中心展开候选参数
+ */
+export function expandStrategyGrid(base: TunableStrategyParams, grid: StrategyParamGrid = {}): TunableStrategyParams[] {
+  const { leverageShifts, positionSizeShifts, stopLossScales } = { ...DEFAULT_GRID, ...grid };
+  const candidates = new Map<string, TunableStrategyParams>();
+
+  for (const leverageShift of leverageShifts) {
+    for (const sizeShift of positionSizeShifts) {
+      for (const scale of stopLossScales) {
+        const leverageMax = Math.min(RISK_PARAMS.MAX_LEVERAGE, Math.max(1, base.leverageMax + leverageShift));
+        const leverageMin = Math.min(leverageMax, Math.max(1, base.leverageMin + leverageShift));
+        const positionSizeMin = Math.max(1, base.positionSizeMin + sizeShift);
+        const positionSizeMax = Math.max(positionSizeMin, base.positionSizeMax + sizeShift);
+        const round = (n: number) => Math.round(n * 100) / 100;
+        const candidate: TunableStrategyParams = {
+          leverageMin,
+          leverageMax,
+          positionSizeMin,
+          positionSizeMax,
+          stopLoss: {
+            low: round(base.stopLoss.low * scale),
+            mid: round(base.stopLoss.mid * scale),
+            high: round(base.stopLoss.high * scale),
+          },
+        };
+        candidates.set(describeParams(candidate), candidate);
+      }
+    }
+  }
+
+  return [...candidates.values()];
+}
+
+/**
+ * 与 generateInstructions 中的止损分档一致：
+ * [min, (min+max)/2) 用 low，[(min+max)/2, (min+max)*0.75) 用 mid，其余用 high
+ */
+export function strategyThresholds(params: TunableStrategyParams): ForcedCloseThresholds {
+  const midLeverage = Math.floor((params.leverageMin + params.leverageMax) / 2);
+  const highLeverage = Math.ceil((params.leverageMin + params.leverageMax) * 0.75);
+  return {
+    ...DEFAULT_FORCED_CLOSE_THRESHOLDS,
+    stopLossTiers: [
+      { minLeverage: highLeverage, stopLossPercent: params.stopLoss.high },
+      { minLeverage: midLeverage, stopLossPercent: params.stopLoss.mid },
+      { minLeverage: 0, stopLossPercent: params.stopLoss.low },
+    ],
+  };
+}
+
+/**
+ * 按信号强度选择杠杆和仓位比例
+ */
+function sizeEntry(entry: RecordedEntry, params: TunableStrategyParams) {
+  const pick = (min: number, max: number) => {
+    switch (entry.conviction) {
+      case "strong":
+        return max;
+      case "good":
+        return (min + max) / 2;
+      default:
+        return min;
+    }
+  };
+  return {
+    leverage: Math.round(pick(params.leverageMin, params.leverageMax)),
+    positionSizePercent: pick(params.positionSizeMin, params.positionSizeMax),
+  };
+}
+
+/**
+ * 用给定参数回放一组开仓（仓位按开仓时已实现权益的百分比计算）
+ */
+export function evaluateParams(
+  params: TunableStrategyParams,
+  entries: RecordedEntry[],
+  candles: Record<string, Candle[]>,
+  options: Pick<WalkForwardOptions, "initialBalance" | "feeRate"> = {},
+): ExitSweepResult {
+  const initialBalance = options.initialBalance ?? 10000;
+  const thresholds = strategyThresholds(params);
+  const trades: SimulatedTrade[] = [];
+
+  for (const entry of [...entries].sort((a, b) => a.openedAt - b.openedAt)) {
+    const series = candles[`${entry.symbol}_USDT`];
+    if (!series || series.length === 0) continue;
+
+    const realized = trades.filter((t) => t.closedAt <= entry.openedAt).reduce((sum, t) => sum + t.pnl, 0);
+    const equity = initialBalance + realized;
+    if (equity <= 0) break;
+
+    const { leverage, positionSizePercent } = sizeEntry(entry, params);
+    const trade = simulateExit(
+      { ...entry, leverage, margin: (equity * positionSizePercent) / 100 },
+      series,
+      thresholds,
+      { feeRate: options.feeRate },
+    );
+    if (trade) trades.push(trade);
+  }
+
+  return summarizeTrades(thresholds, trades, initialBalance);
+}
+
+function stripTrades(result: ExitSweepResult): WalkForwardMetrics {
+  const { trades: _trades, thresholds: _thresholds, label: _label, ...metrics } = result;
+  return metrics;
+}
+
+function score(result: Pick<ExitSweepResult, "totalPnl" | "maxDrawdown">, objective: WalkForwardObjective) {
+  if (objective === "calmar") {
+    return result.totalPnl / Math.max(result.maxDrawdown, 1);
+  }
+  return result.totalPnl;
+}
+
+/**
+ * 在多个测试窗口上分别评估同一组参数（每个窗口从初始资金开始），拼接成交后汇总
+ */
+function evaluateWindows(
+  params: TunableStrategyParams,
+  testSets: RecordedEntry[][],
+  candles: Record<string, Candle[]>,
+  options: Pick<WalkForwardOptions, "initialBalance" | "feeRate">,
+): WalkForwardMetrics {
+  const trades = testSets.flatMap((entries) => evaluateParams(params, entries, candles, options).trades);
+  return stripTrades(summarizeTrades(strategyThresholds(params), trades, options.initialBalance));
+}
+
+/**
+ * 对单个策略执行 walk-forward 优化
+ */
+export function runWalkForward(
+  strategy: TradingStrategy,
+  entries: RecordedEntry[],
+  candles: Record<string, Candle[]>,
+  options: WalkForwardOptions,
+): WalkForwardResult {
+  const base = pickTunable(getStrategyParams(strategy));
+  const candidates = expandStrategyGrid(base, options.grid);
+  const objective = options.objective || "pnl";
+  const minTrainTrades = options.minTrainTrades ?? 1;
+  const dayMs = 86400000;
+
+  const sorted = [...entries].sort((a, b) => a.openedAt - b.openedAt);
+  const windows: WalkForwardWindow[] = [];
+  const selectionCounts: Record<string, number> = {};
+  const oosTrades: SimulatedTrade[] = [];
+  const testSets: RecordedEntry[][] = [];
+
+  if (sorted.length === 0) {
+    const empty = stripTrades(summarizeTrades(strategyThresholds(base), [], options.initialBalance));
+    return {
+      strategy,
+      base,
+      recommended: null,
+      recommendedOutOfSample: null,
+      selectionCounts,
+      windows,
+      outOfSample: empty,
+      baselineOutOfSample: empty,
+    };
+  }
+
+  const first = sorted[0].openedAt;
+  const last = sorted[sorted.length - 1].openedAt;
+  const inRange = (from: number, to: number) => sorted.filter((e) => e.openedAt >= from && e.openedAt < to);
+
+  for (let trainStart = first; trainStart + options.trainDays * dayMs <= last; trainStart += options.testDays * dayMs) {
+    const trainEnd = trainStart + options.trainDays * dayMs;
+    const testEnd = trainEnd + options.testDays * dayMs;
+    const trainEntries = inRange(trainStart, trainEnd);
+    const testEntries = inRange(trainEnd, testEnd);
+    if (trainEntries.length < minTrainTrades) continue;
+
+    let best: { params: TunableStrategyParams; result: ExitSweepResult } | null = null;
+    for (const params of candidates) {
+      const result = evaluateParams(params, trainEntries, candles, options);
+      if (result.tradeCount < minTrainTrades) continue;
+      if (!best || score(result, objective) > score(best.result, objective)) {
+        best = { params, result };
+      }
+    }
+    if (!best) continue;
+
+    const test = evaluateParams(best.params, testEntries, candles, options);
+    const baseline = evaluateParams(base, testEntries, candles, options);
+    oosTrades.push(...test.trades);
+    testSets.push(testEntries);
+
+    const key = describeParams(best.params);
+    selectionCounts[key] = (selectionCounts[key] || 0) + 1;
+
+    windows.push({
+      trainStart,
+      trainEnd,
+      testStart: trainEnd,
+      testEnd,
+      selected: best.params,
+      trainMetrics: stripTrades(best.result),
+      testMetrics: stripTrades(test),
+      baselineTestMetrics: stripTrades(baseline),
+    });
+  }
+
+  // 推荐参数：选中过的参数在全部测试窗口上与原始参数比较，只有样本外更好才替换原始参数
+  const baselineOutOfSample = evaluateWindows(base, testSets, candles, options);
+  let recommended: { params: TunableStrategyParams; metrics: WalkForwardMetrics } | null =
+    windows.length > 0 ? { params: base, metrics: baselineOutOfSample } : null;
+  const selected = new Map(windows.map((w) => [describeParams(w.selected), w.selected]));
+  for (const params of selected.values()) {
+    const metrics = evaluateWindows(params, testSets, candles, options);
+    if (recommended && score(metrics, objective) > score(recommended.metrics, objective)) {
+      recommended = { params, metrics };
+    }
+  }
+
+  return {
+    strategy,
+    base,
+    recommended: recommended?.params ?? null,
+    recommendedOutOfSample: recommended?.metrics ?? null,
+    selectionCounts,
+    windows,
+    outOfSample: stripTrades(summarizeTrades(strategyThresholds(base), oosTrades, options.initialBalance)),
+    baselineOutOfSample,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 交易所端止损止盈状态存储
+ *
+ * bracket_states 表每个引擎 + 合约一行，记录开仓时的止损距离（ATR 模式）、止损止盈价和触发单 ID。
+ * 引擎重启后 BracketOrderManager 从这里恢复，而不是按杠杆分级距离重挂。
+ */
+import { type Client, createClient } from "@libsql/client";
+import type { BracketState } from "../risk/bracketOrders";
+import type { BracketStateRecord } from "./schema";
+
+export class BracketStateStore {
+  private readonly dbClient: Client;
+
+  constructor(dbClient?: Client) {
+    this.dbClient =
+      dbClient ||
+      createClient({
+        url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+      });
+  }
+
+  async getAll(engineId: number): Promise<BracketStateRecord[]> {
+    const result = await this.dbClient.execute({
+      sql: "SELECT * FROM bracket_states WHERE engine_id = ?",
+      args: [engineId],
+    });
+    return result.rows.map((row: any) => ({
+      engine_id: Number(row.engine_id),
+      contract: row.contract as string,
+      side: row.side as "long" | "short",
+      size: Number(row.size),
+      entry_price: Number(row.entry_price),
+      leverage: Number(row.leverage),
+      stop_loss_price: Number(row.stop_loss_price),
+      take_profit_price: Number(row.take_profit_price),
+      stop_distance: Number(row.stop_distance),
+      stop_loss_order_id: row.stop_loss_order_id as string,
+      take_profit_order_id: row.take_profit_order_id as string,
+      updated_at: row.updated_at as string,
+    }));
+  }
+
+  /**
+   * 读取并转换为 BracketState
+   */
+  async getStates(engineId: number): Promise<BracketState[]> {
+    return (await this.getAll(engineId)).map((r) => ({
+      contract: r.contract,
+      side: r.side,
+      size: r.size,
+      entryPrice: r.entry_price,
+      leverage: r.leverage,
+      stopLossPrice: r.stop_loss_price,
+      takeProfitPrice: r.take_profit_price,
+      stopDistance: r.stop_distance,
+      stopLossOrderId: r.stop_loss_order_id,
+      takeProfitOrderId: r.take_profit_order_id,
+    }));
+  }
+
+  async save(engineId: number, state: BracketState, now = new Date()) {
+    await this.dbClient.execute({
+      sql: `INSERT OR REPLACE INTO bracket_states
+            (engine_id, contract, side, size, entry_price, leverage, stop_loss_price, take_profit_price,
+             stop_distance, stop_loss_order_id, take_profit_order_id, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        engineId,
+        state.contract,
+        state.side,
+        state.size,
+        state.entryPrice,
+        state.leverage,
+        state.stopLossPrice,
+        state.takeProfitPrice,
+        state.stopDistance,
+        state.stopLossOrderId,
+        state.takeProfitOrderId,
+        now.toISOString(),
+      ],
+    });
+  }
+
+  async delete(engineId: number, contract: string) {
+    await this.dbClient.execute({
+      sql: "DELETE FROM bracket_states WHERE engine_id = ? AND contract = ?",
+      args: [engineId, contract],
+    });
+  }
+
+  /**
+   * 删除引擎的全部记录
+   */
+  async clear(engineId: number) {
+    await this.dbClient.execute({
+      sql: "DELETE FROM bracket_states WHERE engine_id = ?",
+      args: [engineId],
+    });
+  }
+}
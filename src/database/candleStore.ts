@@ -0,0 +1,217 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 本地 K 线存储
+ *
+ * candles 表按 (contract, interval, timestamp) 去重，读取时返回与
+ * FuturesCandlestick 相同的 {t, v, c, h, l, o, sum} 结构，可直接交给
+ * calculateIndicators 或回测的 ReplayMarket 使用。
+ */
+import { type Client, createClient } from "@libsql/client";
+import { type Candle, INTERVAL_SECONDS } from "../backtest/candleFiles";
+
+export interface CandleQuery {
+  /** 开始时间（秒，含） */
+  from?: number;
+  /** 结束时间（秒，含） */
+  to?: number;
+  /** 返回最近 limit 根 */
+  limit?: number;
+}
+
+export interface CandleGap {
+  /** 缺失区间第一根 K 线的开盘时间（秒） */
+  from: number;
+  /** 缺失区间最后一根 K 线的开盘时间（秒） */
+  to: number;
+  missing: number;
+}
+
+export interface CandleSeriesSummary {
+  contract: string;
+  interval: string;
+  count: number;
+  first: number;
+  last: number;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+export function getIntervalSeconds(interval: string) {
+  const seconds = INTERVAL_SECONDS[interval];
+  if (!seconds) {
+    throw new Error(`Unsupported candle interval: ${interval}`);
+  }
+  return seconds;
+}
+
+/**
+ * 按周期检查已排序 K 线序列中的缺口
+ */
+export function detectCandleGaps(timestamps: number[], intervalSeconds: number): CandleGap[] {
+  const gaps: CandleGap[] = [];
+  for (let i = 1; i < timestamps.length; i++) {
+    const expected = timestamps[i - 1] + intervalSeconds;
+    if (timestamps[i] > expected) {
+      gaps.push({
+        from: expected,
+        to: timestamps[i] - intervalSeconds,
+        missing: Math.round((timestamps[i] - expected) / intervalSeconds),
+      });
+    }
+  }
+  return gaps;
+}
+
+export class CandleStore {
+  private readonly dbClient: Client;
+
+  constructor(dbClient?: Client) {
+    this.dbClient =
+      dbClient ||
+      createClient({
+        url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+      });
+  }
+
+  /**
+   * 写入 K 线（同一时间戳覆盖旧数据），返回写入条数
+   */
+  async upsertCandles(contract: string, interval: string, candles: Candle[]) {
+    getIntervalSeconds(interval);
+
+    for (let i = 0; i < candles.length; i += INSERT_BATCH_SIZE) {
+      const batch = candles.slice(i, i + INSERT_BATCH_SIZE).map((c) => ({
+        sql: `INSERT OR REPLACE INTO candles
+              (contract, interval, timestamp, open, high, low, close, volume, sum)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          contract,
+          interval,
+          c.t,
+          Number.parseFloat(c.o),
+          Number.parseFloat(c.h),
+          Number.parseFloat(c.l),
+          Number.parseFloat(c.c),
+          c.v,
+          Number.parseFloat(c.sum) || 0,
+        ],
+      }));
+      await this.dbClient.batch(batch, "write");
+    }
+
+    return candles.length;
+  }
+
+  /**
+   * 读取 K 线，按时间升序返回
+   */
+  async getCandles(contract: string, interval: string, query: CandleQuery = {}): Promise<Candle[]> {
+    const conditions = ["contract = ?", "interval = ?"];
+    const args: any[] = [contract, interval];
+    if (query.from !== undefined) {
+      conditions.push("timestamp >= ?");
+      args.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push("timestamp <= ?");
+      args.push(query.to);
+    }
+
+    // 指定 limit 时取最近的 N 根
+    let sql = `SELECT * FROM candles WHERE ${conditions.join(" AND ")} ORDER BY timestamp DESC`;
+    if (query.limit) {
+      sql += " LIMIT ?";
+      args.push(query.limit);
+    }
+
+    const result = await this.dbClient.execute({ sql, args });
+    return result.rows
+      .map((row: any) => ({
+        t: Number(row.timestamp),
+        v: Number(row.volume),
+        c: String(row.close),
+        h: String(row.high),
+        l: String(row.low),
+        o: String(row.open),
+        sum: String(row.sum),
+      }))
+      .reverse();
+  }
+
+  /**
+   * 批量读取多个合约的 K 线（回测数据源），缺少数据的合约直接报错
+   */
+  async getSeries(contracts: string[], interval: string, query: CandleQuery = {}) {
+    const result: Record<string, Candle[]> = {};
+    for (const contract of contracts) {
+      result[contract] = await this.getCandles(contract, interval, query);
+      if (result[contract].length === 0) {
+        throw new Error(`No ${interval} candles stored for ${contract}`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 已存储的合约/周期概览
+   */
+  async listSeries(): Promise<CandleSeriesSummary[]> {
+    const result = await this.dbClient.execute(
+      `SELECT contract, interval, COUNT(*) AS count, MIN(timestamp) AS first, MAX(timestamp) AS last
+       FROM candles GROUP BY contract, interval ORDER BY contract, interval`,
+    );
+    return result.rows.map((row: any) => ({
+      contract: String(row.contract),
+      interval: String(row.interval),
+      count: Number(row.count),
+      first: Number(row.first),
+      last: Number(row.last),
+    }));
+  }
+
+  /**
+   * 查找缺失的 K 线区间（from/to 未指定时使用已存储数据的首尾）
+   */
+  async findGaps(contract: string, interval: string, query: Omit<CandleQuery, "limit"> = {}): Promise<CandleGap[]> {
+    const intervalSeconds = getIntervalSeconds(interval);
+    const candles = await this.getCandles(contract, interval, query);
+    if (candles.length === 0) {
+      if (query.from !== undefined && query.to !== undefined) {
+        return [{ from: query.from, to: query.to, missing: Math.floor((query.to - query.from) / intervalSeconds) + 1 }];
+      }
+      return [];
+    }
+
+    const timestamps = candles.map((c) => c.t);
+    // 在首尾补上查询边界，区间两端的缺失也能报告出来
+    if (query.from !== undefined && query.from < timestamps[0]) {
+      timestamps.unshift(query.from - intervalSeconds);
+    }
+    if (query.to !== undefined && query.to > timestamps[timestamps.length - 1]) {
+      timestamps.push(query.to + intervalSeconds);
+    }
+
+    return detectCandleGaps(timestamps, intervalSeconds);
+  }
+
+  close() {
+    this.dbClient.close();
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 账户回撤熔断状态存储
+ *
+ * circuit_breakers 表每个引擎一行；峰值净值取复位时间之后 account_history 的最高 total_value + unrealized_pnl，
+ * 与当前净值（totalBalance + unrealisedPnl）口径一致。
+ */
+import { type Client, createClient } from "@libsql/client";
+import type { CircuitBreakerLevel, CircuitBreakerStatus } from "../risk/circuitBreaker";
+import type { CircuitBreakerRecord } from "./schema";
+
+export class CircuitBreakerStore {
+  private readonly dbClient: Client;
+
+  constructor(dbClient?: Client) {
+    this.dbClient =
+      dbClient ||
+      createClient({
+        url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+      });
+  }
+
+  async get(engineId: number): Promise<CircuitBreakerRecord | null> {
+    const result = await this.dbClient.execute({
+      sql: "SELECT * FROM circuit_breakers WHERE engine_id = ?",
+      args: [engineId],
+    });
+    const row: any = result.rows[0];
+    if (!row) return null;
+    return {
+      engine_id: Number(row.engine_id),
+      level: row.level as CircuitBreakerLevel,
+      drawdown_percent: Number(row.drawdown_percent),
+      peak_equity: Number(row.peak_equity),
+      equity: Number(row.equity),
+      reason: row.reason as string,
+      tripped_at: (row.tripped_at as string) || null,
+      reset_at: (row.reset_at as string) || null,
+      updated_at: row.updated_at as string,
+    };
+  }
+
+  /**
+   * 读取上次保存的状态（转换为 CircuitBreakerStatus）
+   */
+  async getStatus(engineId: number): Promise<CircuitBreakerStatus | null> {
+    const record = await this.get(engineId);
+    if (!record) return null;
+    return {
+      level: record.level,
+      drawdownPercent: record.drawdown_percent,
+      peakEquity: record.peak_equity,
+      equity: record.equity,
+      reason: record.reason,
+      trippedAt: record.tripped_at,
+    };
+  }
+
+  /**
+   * 复位时间之后 account_history 中的最高净值（已实现余额 + 未实现盈亏）
+   */
+  async getPeakEquity(engineId: number) {
+    const record = await this.get(engineId);
+    const result = await this.dbClient.execute({
+      sql: "SELECT MAX(total_value + COALESCE(unrealized_pnl, 0)) AS peak FROM account_history WHERE engine_id = ? AND timestamp >= ?",
+      args: [engineId, record?.reset_at || ""],
+    });
+    const peak = result.rows[0]?.peak;
+    return peak === null || peak === undefined ? null : Number(peak);
+  }
+
+  async save(engineId: number, status: CircuitBreakerStatus, now = new Date()) {
+    await this.dbClient.execute({
+      sql: `INSERT INTO circuit_breakers
+            (engine_id, level, drawdown_percent, peak_equity, equity, reason, tripped_at, reset_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, NULL, ?)
+            ON CONFLICT(engine_id) DO UPDATE SET
+              level = excluded.level,
+              drawdown_percent = excluded.drawdown_percent,
+              peak_equity = excluded.peak_equity,
+              equity = excluded.equity,
+              reason = excluded.reason,
+              tripped_at = excluded.tripped_at,
+              updated_at = excluded.updated_at`,
+      args: [
+        engineId,
+        status.level,
+        status.drawdownPercent,
+        status.peakEquity,
+        status.equity,
+        status.reason,
+        status.trippedAt,
+        now.toISOString(),
+      ],
+    });
+  }
+
+  /**
+   * 手动复位：回到 normal，峰值从复位时刻重新计算
+   */
+  async reset(engineId: number, now = new Date()) {
+    await this.dbClient.execute({
+      sql: `INSERT INTO circuit_breakers
+            (engine_id, level, drawdown_percent, peak_equity, equity, reason, tripped_at, reset_at, updated_at)
+            VALUES (?, 'normal', 0, 0, 0, '', NULL, ?, ?)
+            ON CONFLICT(engine_id) DO UPDATE SET
+              level = 'normal',
+              drawdown_percent = 0,
+              reason = '',
+              tripped_at = NULL,
+              reset_at = excluded.reset_at,
+              updated_at = excluded.updated_at`,
+      args: [engineId, now.toISOString(), now.toISOString()],
+    });
+  }
+
+  async clear(engineId: number) {
+    await this.dbClient.execute({
+      sql: "DELETE FROM circuit_breakers WHERE engine_id = ?",
+      args: [engineId],
+    });
+  }
+
+  close() {
+    this.dbClient.close();
+  }
+}
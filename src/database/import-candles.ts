@@ -0,0 +1,110 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 导入历史 K 线到本地 candles 表，并报告缺失区间
+ *
+ * 用法：
+ *   npm run db:import-candles -- ./data/BTC_USDT.csv ./data/ETH_USDT.jsonl --interval 1m
+ *   npm run db:import-candles -- --check --contract BTC_USDT --interval 1m
+ *
+ * 未指定 --contract 时按文件名推断合约（BTC_USDT.csv → BTC_USDT）。
+ */
+import { readFileSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { parseArgs } from "node:util";
+import { parseCandleText } from "../backtest/candleFiles";
+import { createLogger } from "../utils/logger";
+import { CandleStore, getIntervalSeconds } from "./candleStore";
+import { initDatabase } from "./init";
+
+const logger = createLogger("import-candles", "info");
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    contract: { type: "string" },
+    interval: { type: "string", default: "1m" },
+    check: { type: "boolean", default: false },
+    from: { type: "string" },
+    to: { type: "string" },
+  },
+});
+
+function formatTime(seconds: number) {
+  return new Date(seconds * 1000).toISOString();
+}
+
+async function reportGaps(store: CandleStore, contract: string, interval: string) {
+  const gaps = await store.findGaps(contract, interval, {
+    from: values.from ? Math.floor(Date.parse(values.from) / 1000) : undefined,
+    to: values.to ? Math.floor(Date.parse(values.to) / 1000) : undefined,
+  });
+
+  if (gaps.length === 0) {
+    logger.info(`✅ ${contract} ${interval}: 无缺失`);
+    return;
+  }
+
+  const missing = gaps.reduce((sum, gap) => sum + gap.missing, 0);
+  logger.warn(`⚠️  ${contract} ${interval}: ${gaps.length} 个缺口，共缺失 ${missing} 根 K 线`);
+  for (const gap of gaps) {
+    console.log(`  ${formatTime(gap.from)} → ${formatTime(gap.to)} (${gap.missing})`);
+  }
+}
+
+async function importCandles() {
+  try {
+    const interval = values.interval as string;
+    getIntervalSeconds(interval);
+
+    await initDatabase();
+    const store = new CandleStore();
+
+    if (values.check) {
+      const contracts = values.contract
+        ? [values.contract]
+        : (await store.listSeries()).filter((s) => s.interval === interval).map((s) => s.contract);
+      for (const contract of contracts) {
+        await reportGaps(store, contract, interval);
+      }
+      store.close();
+      return;
+    }
+
+    if (positionals.length === 0) {
+      logger.error("❌ 请指定要导入的 CSV / JSON-lines 文件");
+      process.exit(1);
+    }
+
+    for (const file of positionals) {
+      const contract = values.contract || basename(file, extname(file));
+      const candles = parseCandleText(readFileSync(file, "utf-8"));
+      const count = await store.upsertCandles(contract, interval, candles);
+      logger.info(`✅ ${file}: 导入 ${contract} ${interval} K 线 ${count} 根`);
+      await reportGaps(store, contract, interval);
+    }
+
+    store.close();
+  } catch (error: any) {
+    logger.error(`❌ 导入失败: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+importCandles();
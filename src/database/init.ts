@@ -13,10 +13,8 @@ import { createLogger } from "../utils/logger";
 
 const logger = createLogger("database-init", "info");
 
-async function initDatabase() {
+async function initDatabase(dbUrl = process.env.DATABASE_URL || "file:./.voltagent/trading.db") {
   try {
-    const dbUrl = process.env.DATABASE_URL || "file:./.voltagent/trading.db";
-
     logger.info(`Initializing database: ${dbUrl}`);
 
     const client = createClient({
@@ -50,6 +48,16 @@ async function initDatabase() {
       }
     }
 
+    // position_peaks 旧表补上 peak_quantity 字段（分批止盈使用）
+    try {
+      await client.execute("ALTER TABLE position_peaks ADD COLUMN peak_quantity REAL NOT NULL DEFAULT 0");
+      logger.info("✅ Migrated table position_peaks: added peak_quantity column");
+    } catch (e: any) {
+      if (e.message && !e.message.includes("duplicate column name")) {
+        logger.warn(`⚠️  Migration check for position_peaks: ${e.message}`);
+      }
+    }
+
     logger.info("Database initialization complete.");
 
     client.close();
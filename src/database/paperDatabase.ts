@@ -0,0 +1,39 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 模拟盘本地数据库
+ *
+ * 模拟盘（tradingMode = "paper"）和实盘引擎使用相同的 engine_id，如果写入同一个库，
+ * 模拟净值会进入实盘的回撤峰值、熔断状态和单日亏损基准。模拟盘因此写入独立的 PAPER_DATABASE_URL
+ * （默认 ./.voltagent/paper.db），与回测使用 BACKTEST_DATABASE_URL 的做法一致。
+ */
+import { type Client, createClient } from "@libsql/client";
+
+let paperDbClient: Client | null = null;
+
+export function getPaperDatabaseUrl() {
+  return process.env.PAPER_DATABASE_URL || "file:./.voltagent/paper.db";
+}
+
+export function getPaperDbClient(): Client {
+  if (!paperDbClient) {
+    paperDbClient = createClient({ url: getPaperDatabaseUrl() });
+  }
+  return paperDbClient;
+}
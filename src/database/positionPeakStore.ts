@@ -0,0 +1,135 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 持仓峰值盈亏存储
+ *
+ * 每个交易周期用当前持仓调用 sync：
+ * - 新持仓以当前盈亏百分比和张数作为初始峰值
+ * - 已有持仓的峰值取 max(历史峰值, 当前盈亏)，最大张数取 max(历史最大张数, 当前张数)
+ * - 已不在持仓列表中的记录（已平仓）被删除，同一合约重新开仓时开仓时间不同，峰值从头计算
+ */
+import { type Client, createClient } from "@libsql/client";
+import type { PositionPeak } from "./schema";
+
+export interface TrackedPosition {
+  contract: string;
+  side: "long" | "short";
+  /** 开仓时间（ISO 字符串） */
+  opened_at: string;
+  /** 当前盈亏百分比（已考虑杠杆） */
+  pnlPercent: number;
+  /** 当前持仓张数（绝对值） */
+  quantity: number;
+}
+
+export interface PositionPeakValues {
+  peakPnlPercent: number;
+  peakQuantity: number;
+}
+
+export function positionPeakKey(contract: string, side: string, openedAt: string) {
+  return `${contract}|${side}|${openedAt}`;
+}
+
+export class PositionPeakStore {
+  private readonly dbClient: Client;
+
+  constructor(dbClient?: Client) {
+    this.dbClient =
+      dbClient ||
+      createClient({
+        url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+      });
+  }
+
+  async getPeaks(engineId: number): Promise<PositionPeak[]> {
+    const result = await this.dbClient.execute({
+      sql: "SELECT * FROM position_peaks WHERE engine_id = ?",
+      args: [engineId],
+    });
+    return result.rows.map((row: any) => ({
+      engine_id: Number(row.engine_id),
+      contract: row.contract as string,
+      side: row.side as "long" | "short",
+      opened_at: row.opened_at as string,
+      peak_pnl_percent: Number(row.peak_pnl_percent),
+      peak_quantity: Number(row.peak_quantity ?? 0),
+      updated_at: row.updated_at as string,
+    }));
+  }
+
+  /**
+   * 用当前持仓更新峰值并清理已平仓的记录，返回 positionPeakKey → 峰值盈亏百分比和最大张数
+   */
+  async sync(engineId: number, positions: TrackedPosition[], now = new Date()) {
+    const existing = new Map(
+      (await this.getPeaks(engineId)).map((p) => [positionPeakKey(p.contract, p.side, p.opened_at), p]),
+    );
+    const peaks = new Map<string, PositionPeakValues>();
+    const statements: { sql: string; args: any[] }[] = [];
+
+    for (const pos of positions) {
+      const key = positionPeakKey(pos.contract, pos.side, pos.opened_at);
+      const previous = existing.get(key);
+      const previousPeak = previous?.peak_pnl_percent ?? Number.NEGATIVE_INFINITY;
+      const previousQuantity = previous?.peak_quantity ?? 0;
+      const peak = Math.max(previousPeak, pos.pnlPercent);
+      const peakQuantity = Math.max(previousQuantity, pos.quantity);
+      peaks.set(key, { peakPnlPercent: peak, peakQuantity });
+      existing.delete(key);
+
+      if (peak !== previousPeak || peakQuantity !== previousQuantity) {
+        statements.push({
+          sql: `INSERT OR REPLACE INTO position_peaks
+                (engine_id, contract, side, opened_at, peak_pnl_percent, peak_quantity, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          args: [engineId, pos.contract, pos.side, pos.opened_at, peak, peakQuantity, now.toISOString()],
+        });
+      }
+    }
+
+    // 剩下的都是已经平仓的持仓
+    for (const closed of existing.values()) {
+      statements.push({
+        sql: "DELETE FROM position_peaks WHERE engine_id = ? AND contract = ? AND side = ? AND opened_at = ?",
+        args: [engineId, closed.contract, closed.side, closed.opened_at],
+      });
+    }
+
+    if (statements.length > 0) {
+      await this.dbClient.batch(statements, "write");
+    }
+
+    return peaks;
+  }
+
+  /**
+   * 删除引擎的全部峰值记录
+   */
+  async clear(engineId: number) {
+    await this.dbClient.execute({
+      sql: "DELETE FROM position_peaks WHERE engine_id = ?",
+      args: [engineId],
+    });
+  }
+
+  close() {
+    this.dbClient.close();
+  }
+}
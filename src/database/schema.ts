@@ -71,6 +71,71 @@ export interface AgentDecision {
   positions_count: number;
 }
 
+/**
+ * 本地历史 K 线（t 为开盘时间，单位秒）
+ */
+export interface CandleRecord {
+  contract: string;
+  interval: string;
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  sum: number;
+}
+
+/**
+ * 持仓峰值盈亏（按引擎 + 合约 + 方向 + 开仓时间区分每一笔持仓）
+ */
+export interface PositionPeak {
+  engine_id: number;
+  contract: string;
+  side: "long" | "short";
+  opened_at: string;
+  peak_pnl_percent: number;
+  /** 持仓期间的最大张数（分批止盈使用） */
+  peak_quantity: number;
+  updated_at: string;
+}
+
+/**
+ * 账户回撤熔断状态（每个引擎一行，重启后恢复）
+ */
+export interface CircuitBreakerRecord {
+  engine_id: number;
+  level: "normal" | "warn" | "block_entries" | "halt";
+  drawdown_percent: number;
+  peak_equity: number;
+  equity: number;
+  reason: string;
+  /** 进入当前级别的时间 */
+  tripped_at: string | null;
+  /** 手动复位时间，之后的 account_history 才计入峰值 */
+  reset_at: string | null;
+  updated_at: string;
+}
+
+/**
+ * 交易所端止损止盈触发单状态（每个引擎 + 合约一行，重启后恢复 ATR 止损距离和已挂触发单）
+ */
+export interface BracketStateRecord {
+  engine_id: number;
+  contract: string;
+  side: "long" | "short";
+  /** 带方向的持仓张数 */
+  size: number;
+  entry_price: number;
+  leverage: number;
+  stop_loss_price: number;
+  take_profit_price: number;
+  stop_distance: number;
+  stop_loss_order_id: string;
+  take_profit_order_id: string;
+  updated_at: string;
+}
+
 export interface SystemConfig {
   id: number;
   key: string;
@@ -131,6 +196,61 @@ CREATE TABLE IF NOT EXISTS agent_decisions (
   -- FOREIGN KEY (engine_id) REFERENCES quant_engines(id) ON DELETE CASCADE -- Removed FK constraint
 );
 
+-- 历史 K 线表（回测和离线分析的本地数据源）
+CREATE TABLE IF NOT EXISTS candles (
+  contract TEXT NOT NULL,
+  interval TEXT NOT NULL,
+  timestamp INTEGER NOT NULL, -- 开盘时间（秒）
+  open REAL NOT NULL,
+  high REAL NOT NULL,
+  low REAL NOT NULL,
+  close REAL NOT NULL,
+  volume REAL NOT NULL,
+  sum REAL NOT NULL DEFAULT 0,
+  PRIMARY KEY (contract, interval, timestamp)
+);
+
+-- 持仓峰值盈亏和最大张数表（移动止盈、峰值回撤保护和分批止盈使用，平仓后删除）
+CREATE TABLE IF NOT EXISTS position_peaks (
+  engine_id INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  side TEXT NOT NULL,
+  opened_at TEXT NOT NULL,
+  peak_pnl_percent REAL NOT NULL,
+  peak_quantity REAL NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (engine_id, contract, side, opened_at)
+);
+
+-- 账户回撤熔断状态表
+CREATE TABLE IF NOT EXISTS circuit_breakers (
+  engine_id INTEGER PRIMARY KEY,
+  level TEXT NOT NULL,
+  drawdown_percent REAL NOT NULL,
+  peak_equity REAL NOT NULL,
+  equity REAL NOT NULL,
+  reason TEXT NOT NULL,
+  tripped_at TEXT,
+  reset_at TEXT,
+  updated_at TEXT NOT NULL
+);
+
+-- 交易所端止损止盈状态表（平仓后删除）
+CREATE TABLE IF NOT EXISTS bracket_states (
+  engine_id INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  side TEXT NOT NULL,
+  size REAL NOT NULL,
+  entry_price REAL NOT NULL,
+  leverage REAL NOT NULL,
+  stop_loss_price REAL NOT NULL,
+  take_profit_price REAL NOT NULL,
+  stop_distance REAL NOT NULL,
+  stop_loss_order_id TEXT NOT NULL,
+  take_profit_order_id TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (engine_id, contract)
+);
 
 -- 创建索引
 CREATE INDEX IF NOT EXISTS idx_signals_timestamp ON trading_signals(timestamp);
@@ -3,6 +3,7 @@ import "dotenv/config";
 import { serve } from "@hono/node-server";
 import { createApiRoutes } from "./api/routes";
 import { initDatabase } from "./database/init";
+import { getPaperDatabaseUrl } from "./database/paperDatabase";
 import { RISK_PARAMS } from "./config/riskParams";
 import { EngineManager } from "./scheduler/EngineManager"; // 引入新的管理器
 import { createLogger } from "./utils/logger";
@@ -25,6 +26,8 @@ async function main() {
   // 1. Initialize database
   logger.info("Initializing database...");
   await initDatabase();
+  // 模拟盘引擎使用独立数据库，避免模拟净值进入实盘的回撤峰值和亏损基准
+  await initDatabase(getPaperDatabaseUrl());
   
   // 2. Initialize Engine Manager (Restore running engines)
   logger.info("Initializing Engine Manager...");
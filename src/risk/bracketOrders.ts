@@ -0,0 +1,344 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 交易所端止损止盈（bracket）
+ *
+ * 每次开仓成功后在交易所挂两张价格触发单（触发后市价全平），进程崩溃或 Agent 周期延迟时仍然有效：
+ *   止损距离 = 入场价 × |杠杆分级止损%| / 杠杆（ATR 仓位模式下使用 ATR 止损距离）
+ *   止盈距离 = 止损距离 × rewardRiskRatio
+ * 仓位平掉或张数、方向变化（加仓、减仓、反手）时撤销原触发单，按新的入场价和张数重挂。
+ * 风控规则（例如保本止损）可以通过 moveStopLoss 把止损收紧到指定价格。
+ * 传入 BracketStateStore 时状态持久化到 bracket_states，重启后由 load 恢复（保留 ATR 止损距离和已挂的触发单）。
+ * 通过 riskParams.bracket { enabled, stopLossTiers, rewardRiskRatio, priceType } 配置；
+ * stopLossTiers 缺省时使用 riskRules 中 stop_loss 规则的分级，再缺省时使用默认强制平仓阈值。
+ */
+import type { GateClient } from "../services/gateClient";
+import type { BracketStateStore } from "../database/bracketStateStore";
+import { roundPrice } from "../services/contractMetadata";
+import { createLogger } from "../utils/logger";
+import { DEFAULT_FORCED_CLOSE_THRESHOLDS, type PositionSide, type StopLossTier } from "./forcedClose";
+import { matchStopLossTier } from "./riskRules";
+
+const logger = createLogger("bracket-orders", "info");
+
+/** 触发单 text 标记，用于识别本模块挂出的触发单 */
+const STOP_LOSS_TEXT = "t-bracket-sl";
+const TAKE_PROFIT_TEXT = "t-bracket-tp";
+
+export interface BracketConfig {
+  enabled: boolean;
+  stopLossTiers: StopLossTier[];
+  /** 止盈距离 / 止损距离 */
+  rewardRiskRatio: number;
+  /** 触发价格类型 0: 最新价，1: 标记价格 */
+  priceType: number;
+}
+
+export interface BracketPrices {
+  stopLossPrice: number;
+  takeProfitPrice: number;
+  /** 入场价到止损价的距离 */
+  stopDistance: number;
+}
+
+export interface BracketState extends BracketPrices {
+  contract: string;
+  side: PositionSide;
+  /** 带方向的持仓张数 */
+  size: number;
+  entryPrice: number;
+  leverage: number;
+  stopLossOrderId: string;
+  takeProfitOrderId: string;
+}
+
+export function getBracketConfig(riskParams: any = {}): BracketConfig {
+  const bracket = riskParams.bracket || {};
+  const stopLossRule = (riskParams.riskRules || []).find((r: any) => typeof r === "object" && r?.rule === "stop_loss");
+  return {
+    enabled: bracket.enabled ?? true,
+    stopLossTiers: bracket.stopLossTiers ?? stopLossRule?.tiers ?? DEFAULT_FORCED_CLOSE_THRESHOLDS.stopLossTiers,
+    rewardRiskRatio: bracket.rewardRiskRatio ?? 2,
+    priceType: bracket.priceType ?? 1,
+  };
+}
+
+/**
+ * 计算止损止盈价并按最小价格变动单位取整（止损和止盈都向远离入场价的方向取整，避免因取整提前触发）
+ */
+export function computeBracketPrices(
+  params: { side: PositionSide; entryPrice: number; leverage: number; stopDistance?: number; tick?: number },
+  config: BracketConfig,
+): BracketPrices {
+  const { side, entryPrice, tick = 0 } = params;
+  const leverage = Math.max(1, params.leverage);
+  const stopLossPercent = Math.abs(matchStopLossTier(config.stopLossTiers, leverage));
+  const stopDistance = params.stopDistance && params.stopDistance > 0
+    ? params.stopDistance
+    : (entryPrice * stopLossPercent) / 100 / leverage;
+  const takeProfitDistance = stopDistance * config.rewardRiskRatio;
+
+  return side === "long"
+    ? {
+        stopLossPrice: roundPrice(entryPrice - stopDistance, tick, "down"),
+        takeProfitPrice: roundPrice(entryPrice + takeProfitDistance, tick, "up"),
+        stopDistance,
+      }
+    : {
+        stopLossPrice: roundPrice(entryPrice + stopDistance, tick, "up"),
+        takeProfitPrice: roundPrice(entryPrice - takeProfitDistance, tick, "down"),
+        stopDistance,
+      };
+}
+
+/**
+ * 引擎级止损止盈管理：记录每个合约当前挂出的触发单，仓位变化时撤销并重挂
+ */
+export class BracketOrderManager {
+  private readonly states = new Map<string, BracketState>();
+  private loaded = false;
+
+  constructor(
+    private readonly gateClient: GateClient,
+    private readonly config: BracketConfig,
+    private readonly persistence?: { store: BracketStateStore; engineId: number },
+  ) {}
+
+  /**
+   * 从 bracket_states 恢复重启前的状态（只执行一次）；之后的 syncAll 按交易所持仓校验，
+   * 张数和入场价不变的仓位沿用原触发单和止损距离
+   */
+  async load() {
+    if (this.loaded || !this.persistence) return;
+    this.loaded = true;
+    try {
+      for (const state of await this.persistence.store.getStates(this.persistence.engineId)) {
+        if (!this.states.has(state.contract)) this.states.set(state.contract, state);
+      }
+      if (this.states.size > 0) {
+        logger.info(`Restored bracket state for ${[...this.states.keys()].join(", ")}`);
+      }
+    } catch (error: any) {
+      logger.error(`Failed to load bracket state: ${error.message}`);
+    }
+  }
+
+  getConfig() {
+    return this.config;
+  }
+
+  getStates() {
+    return [...this.states.values()];
+  }
+
+  /**
+   * 该合约当前触发单使用的止损距离（没有挂单时为 undefined）
+   */
+  getStopDistance(contract: string) {
+    return this.states.get(contract)?.stopDistance;
+  }
+
+  /**
+   * 按合约的当前持仓同步触发单；position 为交易所持仓（没有或 size 为 0 表示已平仓），
+   * stopDistance 为新开仓时的止损距离（例如 ATR 止损），未提供时按杠杆分级计算
+   */
+  async refresh(contract: string, position: any | null, stopDistance?: number): Promise<BracketState | null> {
+    if (!this.config.enabled) return null;
+
+    const size = Number.parseFloat(position?.size || "0");
+    const state = this.states.get(contract);
+    if (size === 0) {
+      if (state) {
+        await this.cancelOwnOrders(contract);
+        await this.deleteState(contract);
+        logger.info(`${contract} position closed, bracket orders cancelled`);
+      }
+      return null;
+    }
+    const entryPrice = Number.parseFloat(position.entryPrice ?? position.entry_price ?? "0");
+    if (state && state.size === size && state.entryPrice === entryPrice && stopDistance === undefined) return state;
+
+    // 新仓位、张数或方向变化：撤销旧触发单（包括重启前挂出的）后重挂
+    await this.cancelOwnOrders(contract);
+    await this.deleteState(contract);
+
+    const side: PositionSide = size > 0 ? "long" : "short";
+    const leverage =
+      Number.parseFloat(position.leverage || "0") ||
+      Number.parseFloat(position.crossLeverageLimit ?? position.cross_leverage_limit ?? "0") ||
+      1;
+    if (!(entryPrice > 0)) return null;
+
+    // 同方向加减仓沿用开仓时的止损距离
+    const keptDistance = state && state.side === side && stopDistance === undefined ? state.stopDistance : undefined;
+    const prices = computeBracketPrices(
+      { side, entryPrice, leverage, stopDistance: stopDistance ?? keptDistance, tick: await this.getTick(contract) },
+      this.config,
+    );
+
+    const stopLoss = await this.gateClient.placePriceTriggerOrder(
+      contract,
+      prices.stopLossPrice,
+      side === "long" ? "down" : "up",
+      0,
+      0,
+      { close_position: true, price_type: this.config.priceType, text: STOP_LOSS_TEXT },
+    );
+    let takeProfit: { id: any };
+    try {
+      takeProfit = await this.gateClient.placePriceTriggerOrder(
+        contract,
+        prices.takeProfitPrice,
+        side === "long" ? "up" : "down",
+        0,
+        0,
+        { close_position: true, price_type: this.config.priceType, text: TAKE_PROFIT_TEXT },
+      );
+    } catch (error) {
+      // 止盈挂单失败时保留止损，下个周期重试止盈
+      await this.setState({
+        contract, side, size, entryPrice, leverage, ...prices,
+        stopLossOrderId: String(stopLoss.id),
+        takeProfitOrderId: "",
+      });
+      throw error;
+    }
+
+    const next: BracketState = {
+      contract,
+      side,
+      size,
+      entryPrice,
+      leverage,
+      ...prices,
+      stopLossOrderId: String(stopLoss.id),
+      takeProfitOrderId: String(takeProfit.id),
+    };
+    await this.setState(next);
+    logger.info(
+      `${contract} ${side} ${Math.abs(size)} @ ${entryPrice}: stop loss ${prices.stopLossPrice} (#${next.stopLossOrderId}), take profit ${prices.takeProfitPrice} (#${next.takeProfitOrderId})`,
+    );
+    return next;
+  }
+
+  /**
+   * 把止损收紧到 stopLossPrice（多头只上移、空头只下移）：先挂新止损再撤旧止损，仓位始终有保护。
+   * 该合约没有已挂的止损止盈时不处理
+   */
+  async moveStopLoss(contract: string, stopLossPrice: number, reason: string): Promise<BracketState | null> {
+    if (!this.config.enabled) return null;
+
+    const state = this.states.get(contract);
+    if (!state) return null;
+
+    // 向盈利方向取整，止损价不低于（空头不高于）要求的价格
+    const price = roundPrice(stopLossPrice, await this.getTick(contract), state.side === "long" ? "up" : "down");
+    const tighter = state.side === "long" ? price > state.stopLossPrice : price < state.stopLossPrice;
+    if (!tighter) return state;
+
+    const stopLoss = await this.gateClient.placePriceTriggerOrder(
+      contract,
+      price,
+      state.side === "long" ? "down" : "up",
+      0,
+      0,
+      { close_position: true, price_type: this.config.priceType, text: STOP_LOSS_TEXT },
+    );
+    if (state.stopLossOrderId) {
+      try {
+        await this.gateClient.cancelPriceTriggerOrder(state.stopLossOrderId);
+      } catch (error: any) {
+        logger.warn(`Failed to cancel previous stop loss #${state.stopLossOrderId} for ${contract}: ${error.message}`);
+      }
+    }
+
+    const next: BracketState = { ...state, stopLossPrice: price, stopLossOrderId: String(stopLoss.id) };
+    await this.setState(next);
+    logger.info(`${contract} ${state.side} stop loss moved ${state.stopLossPrice} -> ${price} (#${next.stopLossOrderId}): ${reason}`);
+    return next;
+  }
+
+  /**
+   * 每个周期按交易所持仓同步：新仓位补挂，已平仓的撤销，张数变化的重挂
+   */
+  async syncAll(rawPositions: any[]) {
+    if (!this.config.enabled) return;
+
+    const open = new Map<string, any>();
+    for (const p of rawPositions) {
+      if (Number.parseFloat(p.size || "0") !== 0) open.set(p.contract, p);
+    }
+    const contracts = new Set([...open.keys(), ...this.states.keys()]);
+    for (const contract of contracts) {
+      try {
+        const position = open.get(contract) ?? null;
+        const state = this.states.get(contract);
+        // 止盈挂单失败的仓位在张数不变时也要重挂
+        if (state && position && !state.takeProfitOrderId) await this.deleteState(contract);
+        await this.refresh(contract, position);
+      } catch (error: any) {
+        logger.error(`Failed to sync bracket orders for ${contract}: ${error.message}`);
+      }
+    }
+  }
+
+  private async setState(state: BracketState) {
+    this.states.set(state.contract, state);
+    if (!this.persistence) return;
+    try {
+      await this.persistence.store.save(this.persistence.engineId, state);
+    } catch (error: any) {
+      logger.error(`Failed to persist bracket state for ${state.contract}: ${error.message}`);
+    }
+  }
+
+  private async deleteState(contract: string) {
+    this.states.delete(contract);
+    if (!this.persistence) return;
+    try {
+      await this.persistence.store.delete(this.persistence.engineId, contract);
+    } catch (error: any) {
+      logger.error(`Failed to delete bracket state for ${contract}: ${error.message}`);
+    }
+  }
+
+  /**
+   * 撤销该合约上本模块挂出的全部触发单（按 text 标记识别，不影响手动设置的止损止盈）
+   */
+  private async cancelOwnOrders(contract: string) {
+    const orders = await this.gateClient.getPriceTriggerOrders(contract, "open");
+    for (const order of orders || []) {
+      const text = order.initial?.text || "";
+      if (text !== STOP_LOSS_TEXT && text !== TAKE_PROFIT_TEXT) continue;
+      try {
+        await this.gateClient.cancelPriceTriggerOrder(String(order.id));
+      } catch (error: any) {
+        logger.warn(`Failed to cancel bracket order #${order.id} for ${contract}: ${error.message}`);
+      }
+    }
+  }
+
+  private async getTick(contract: string) {
+    try {
+      return (await this.gateClient.getContractMetadata(contract)).orderPriceRound;
+    } catch {
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 账户回撤熔断
+ *
+ * 按账户净值相对峰值（account_history 中的最高净值）的回撤分级：
+ * - warn：记录警告并在提示词中提醒
+ * - block_entries：禁止新开仓，只允许平仓
+ * - halt：平掉所有持仓并停止引擎
+ * halt 一旦触发会保持，直到通过 API 手动复位；warn / block_entries 随回撤收窄自动恢复。
+ * 默认 halt 阈值为 ACCOUNT_MAX_DRAWDOWN_PERCENT，warn / block_entries 分别为其 1/3 和 2/3，
+ * 可通过 riskParams.circuitBreaker { warnPercent, blockPercent, haltPercent } 覆盖。
+ */
+import { RISK_PARAMS } from "../config/riskParams";
+
+export type CircuitBreakerLevel = "normal" | "warn" | "block_entries" | "halt";
+
+export interface CircuitBreakerConfig {
+  warnPercent: number;
+  blockPercent: number;
+  haltPercent: number;
+}
+
+export interface CircuitBreakerStatus {
+  level: CircuitBreakerLevel;
+  drawdownPercent: number;
+  peakEquity: number;
+  equity: number;
+  reason: string;
+  /** 进入当前级别的时间（ISO） */
+  trippedAt: string | null;
+}
+
+const LEVEL_ORDER: CircuitBreakerLevel[] = ["normal", "warn", "block_entries", "halt"];
+
+export function getCircuitBreakerConfig(riskParams: any = {}): CircuitBreakerConfig {
+  const config = riskParams.circuitBreaker || {};
+  const haltPercent = config.haltPercent ?? RISK_PARAMS.ACCOUNT_MAX_DRAWDOWN_PERCENT;
+  return {
+    warnPercent: config.warnPercent ?? haltPercent / 3,
+    blockPercent: config.blockPercent ?? (haltPercent * 2) / 3,
+    haltPercent,
+  };
+}
+
+/**
+ * 按当前净值和峰值计算熔断级别；previous 为 halt 时保持 halt
+ */
+export function evaluateCircuitBreaker(
+  equity: number,
+  peakEquity: number,
+  config: CircuitBreakerConfig,
+  previous: CircuitBreakerStatus | null,
+  now: Date,
+): CircuitBreakerStatus {
+  const peak = Math.max(peakEquity, equity);
+  const drawdownPercent = peak > 0 ? ((peak - equity) / peak) * 100 : 0;
+
+  let level: CircuitBreakerLevel = "normal";
+  if (drawdownPercent >= config.haltPercent) level = "halt";
+  else if (drawdownPercent >= config.blockPercent) level = "block_entries";
+  else if (drawdownPercent >= config.warnPercent) level = "warn";
+
+  if (previous?.level === "halt") {
+    return { ...previous, drawdownPercent, peakEquity: peak, equity };
+  }
+
+  const threshold = {
+    normal: 0,
+    warn: config.warnPercent,
+    block_entries: config.blockPercent,
+    halt: config.haltPercent,
+  }[level];
+  const reason =
+    level === "normal"
+      ? ""
+      : `Account drawdown ${drawdownPercent.toFixed(2)}% from peak ${peak.toFixed(2)} USDT ≥ ${threshold.toFixed(2)}%`;
+
+  return {
+    level,
+    drawdownPercent,
+    peakEquity: peak,
+    equity,
+    reason,
+    trippedAt: previous && previous.level === level ? previous.trippedAt : level === "normal" ? null : now.toISOString(),
+  };
+}
+
+/**
+ * 级别是否达到 target（例如 block_entries 及以上都禁止开仓）
+ */
+export function isAtLeast(level: CircuitBreakerLevel, target: CircuitBreakerLevel) {
+  return LEVEL_ORDER.indexOf(level) >= LEVEL_ORDER.indexOf(target);
+}
@@ -0,0 +1,142 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 强制平仓规则（纯函数）
+ *
+ * AgentRunner 每个周期和规则回测（exitSweep）共用同一套判断逻辑：
+ * a) 持仓时间上限  b) 按杠杆分级的止损  c) 移动止盈阶梯  d) 峰值回撤保护
+ * 具体规则实现见 riskRules.ts，这里保留阈值形式的入口。
+ */
+import { evaluateRiskRules, matchStopLossTier, matchTrailingStop, rulesFromThresholds } from "./riskRules";
+
+export type PositionSide = "long" | "short";
+
+export interface StopLossTier {
+  /** 杠杆 >= minLeverage 时使用该档 */
+  minLeverage: number;
+  /** 止损线（杠杆后盈亏百分比，负数） */
+  stopLossPercent: number;
+}
+
+export interface TrailingStopLevel {
+  /** 盈利达到该百分比后启用 */
+  triggerPercent: number;
+  /** 回落到该百分比以下时平仓 */
+  stopPercent: number;
+}
+
+export interface ForcedCloseThresholds {
+  maxHoldingHours: number;
+  /** 按 minLeverage 从高到低匹配 */
+  stopLossTiers: StopLossTier[];
+  /** 按 triggerPercent 从高到低匹配 */
+  trailingLadder: TrailingStopLevel[];
+  /** 从峰值回撤的比例（%） */
+  peakDrawdownPercent: number;
+  /** 峰值盈利超过该值才启用峰值回撤保护 */
+  peakDrawdownMinProfitPercent: number;
+}
+
+export const DEFAULT_FORCED_CLOSE_THRESHOLDS: ForcedCloseThresholds = {
+  maxHoldingHours: 36,
+  stopLossTiers: [
+    { minLeverage: 12, stopLossPercent: -3 },
+    { minLeverage: 8, stopLossPercent: -4 },
+    { minLeverage: 0, stopLossPercent: -5 },
+  ],
+  trailingLadder: [
+    { triggerPercent: 25, stopPercent: 15 },
+    { triggerPercent: 15, stopPercent: 8 },
+    { triggerPercent: 8, stopPercent: 3 },
+  ],
+  peakDrawdownPercent: 30,
+  peakDrawdownMinProfitPercent: 5,
+};
+
+export type ForcedCloseRule = "max_holding" | "stop_loss" | "trailing_stop" | "peak_drawdown";
+
+export interface ForcedCloseInput {
+  side: PositionSide;
+  leverage: number;
+  entryPrice: number;
+  currentPrice: number;
+  holdingHours: number;
+  /** 持仓期间的最高盈亏百分比，未追踪时按当前盈亏处理 */
+  peakPnlPercent?: number;
+}
+
+export interface ForcedCloseDecision {
+  shouldClose: boolean;
+  rule?: ForcedCloseRule;
+  reason: string;
+  pnlPercent: number;
+}
+
+/**
+ * 杠杆后的盈亏百分比
+ */
+export function calculatePnlPercent(side: PositionSide, entryPrice: number, currentPrice: number, leverage: number) {
+  if (entryPrice <= 0) return 0;
+  const priceChangePercent = ((currentPrice - entryPrice) / entryPrice) * 100 * (side === "long" ? 1 : -1);
+  return priceChangePercent * leverage;
+}
+
+export function getStopLossPercent(leverage: number, thresholds: ForcedCloseThresholds = DEFAULT_FORCED_CLOSE_THRESHOLDS) {
+  return matchStopLossTier(thresholds.stopLossTiers, leverage);
+}
+
+/**
+ * 当前适用的移动止盈线（按峰值盈利匹配阶梯），未触发任何档位时返回 null
+ */
+export function getTrailingStopPercent(
+  peakPnlPercent: number,
+  thresholds: ForcedCloseThresholds = DEFAULT_FORCED_CLOSE_THRESHOLDS,
+) {
+  return matchTrailingStop(thresholds.trailingLadder, peakPnlPercent);
+}
+
+/**
+ * 判断持仓是否需要强制平仓（按阈值组合内置规则，规则回测使用）
+ */
+export function evaluateForcedClose(
+  input: ForcedCloseInput,
+  thresholds: ForcedCloseThresholds = DEFAULT_FORCED_CLOSE_THRESHOLDS,
+): ForcedCloseDecision {
+  const pnlPercent = calculatePnlPercent(input.side, input.entryPrice, input.currentPrice, input.leverage);
+  const decision = evaluateRiskRules(
+    rulesFromThresholds(thresholds),
+    {
+      symbol: "",
+      side: input.side,
+      leverage: input.leverage,
+      entryPrice: input.entryPrice,
+      currentPrice: input.currentPrice,
+      quantity: 0,
+      holdingHours: input.holdingHours,
+      pnlPercent,
+      peakPnlPercent: Math.max(input.peakPnlPercent ?? pnlPercent, pnlPercent),
+    },
+    { now: new Date() },
+  );
+
+  if (decision.action !== "close") {
+    return { shouldClose: false, reason: "", pnlPercent };
+  }
+  return { shouldClose: true, rule: decision.rule as ForcedCloseRule, reason: decision.reason, pnlPercent };
+}
@@ -0,0 +1,221 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 紧急平仓（kill switch）
+ *
+ * 按以下顺序把账户清空，并重新读取持仓确认已经平掉：
+ * 1. 撤销价格触发单（避免平仓过程中止损止盈触发反向开仓）
+ * 2. 撤销普通挂单
+ * 3. reduce-only 市价单平掉持仓
+ * 4. 重新读取持仓，仍有仓位时重复 3（单笔数量上限、部分成交），最多 maxAttempts 次；
+ *    重新读取时新出现的合约先撤销其挂单和触发单
+ * 5. 最后重新读取挂单和触发单，没有持仓且没有剩余订单（且读取成功）才算平仓完成
+ * 返回每个合约的处理结果，调用方据此判断是否需要人工介入。
+ */
+import type { GateClient } from "../services/gateClient";
+import type { OrderTracker } from "../services/orderTracker";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("kill-switch", "info");
+
+export interface FlattenOptions {
+  /** 平仓 + 确认的最多轮数 */
+  maxAttempts?: number;
+  /** 每轮下单后等待成交的时间（毫秒） */
+  settleDelayMs?: number;
+  /** 订单跟踪器，提供时登记平仓单 */
+  tracker?: OrderTracker;
+}
+
+export interface ContractFlattenReport {
+  contract: string;
+  /** 开始时的持仓张数（带方向） */
+  initialSize: number;
+  /** 最后一次读取的持仓张数 */
+  finalSize: number;
+  cancelledOrders: number;
+  cancelledTriggerOrders: number;
+  /** 最后一次读取时仍未撤销的普通挂单 / 触发单数量 */
+  remainingOrders: number;
+  remainingTriggerOrders: number;
+  /** 提交的平仓单 ID */
+  closeOrderIds: string[];
+  /** 没有持仓且没有剩余挂单和触发单 */
+  flat: boolean;
+  errors: string[];
+}
+
+export interface FlattenReport {
+  reason: string;
+  startedAt: string;
+  finishedAt: string;
+  /** 所有合约都已确认平仓且没有挂单 */
+  flat: boolean;
+  attempts: number;
+  contracts: ContractFlattenReport[];
+  /** 未能开始平仓时的错误（例如读取持仓失败） */
+  error?: string;
+}
+
+function activeSizes(positions: any[]) {
+  const sizes = new Map<string, number>();
+  for (const p of positions || []) {
+    const size = Number.parseFloat(p.size || "0");
+    if (size !== 0) sizes.set(p.contract, size);
+  }
+  return sizes;
+}
+
+/**
+ * 撤销全部挂单和触发单、平掉全部持仓并确认
+ */
+export async function flattenAccount(gateClient: GateClient, reason: string, options: FlattenOptions = {}): Promise<FlattenReport> {
+  const maxAttempts = options.maxAttempts ?? 3;
+  const settleDelayMs = options.settleDelayMs ?? 500;
+  const startedAt = new Date().toISOString();
+  logger.warn(`Flattening account: ${reason}`);
+
+  const [positions, openOrders, triggerOrders] = await Promise.all([
+    gateClient.getPositions(),
+    gateClient.getOpenOrders().catch(() => []),
+    gateClient.getPriceTriggerOrders().catch(() => []),
+  ]);
+
+  const sizes = activeSizes(positions);
+  const contracts = new Set<string>([
+    ...sizes.keys(),
+    ...(openOrders || []).map((o: any) => o.contract),
+    ...(triggerOrders || []).map((o: any) => o.initial?.contract),
+  ].filter(Boolean));
+
+  // 平仓过程中重新读取到的新合约（例如挂单在撤销前成交）按需补建报告
+  const reports = new Map<string, ContractFlattenReport>();
+  const reportFor = (contract: string, size = 0) => {
+    let report = reports.get(contract);
+    if (!report) {
+      report = {
+        contract,
+        initialSize: size,
+        finalSize: size,
+        cancelledOrders: 0,
+        cancelledTriggerOrders: 0,
+        remainingOrders: 0,
+        remainingTriggerOrders: 0,
+        closeOrderIds: [],
+        flat: false,
+        errors: [],
+      };
+      reports.set(contract, report);
+    }
+    return report;
+  };
+
+  // 1-2. 撤销触发单和挂单
+  const cancelOrders = async (report: ContractFlattenReport) => {
+    try {
+      const cancelled = await gateClient.cancelAllPriceTriggerOrders(report.contract);
+      report.cancelledTriggerOrders += Array.isArray(cancelled) ? cancelled.length : 0;
+    } catch (error: any) {
+      report.errors.push(`撤销触发单失败: ${error.message}`);
+    }
+    try {
+      const cancelled = await gateClient.cancelAllFuturesOrders(report.contract);
+      report.cancelledOrders += Array.isArray(cancelled) ? cancelled.length : 0;
+    } catch (error: any) {
+      report.errors.push(`撤销挂单失败: ${error.message}`);
+    }
+  };
+  for (const contract of contracts) {
+    await cancelOrders(reportFor(contract, sizes.get(contract) ?? 0));
+  }
+
+  // 3-4. reduce-only 平仓并重新读取确认
+  let attempts = 0;
+  let remaining = sizes;
+  while (remaining.size > 0 && attempts < maxAttempts) {
+    attempts++;
+    for (const [contract, size] of remaining) {
+      if (!reports.has(contract)) await cancelOrders(reportFor(contract, size));
+      const report = reportFor(contract, size);
+      try {
+        const order = await gateClient.placeOrder({ contract, size: -size, price: 0, tif: "ioc", reduceOnly: true });
+        report.closeOrderIds.push(String(order.id));
+        await options.tracker?.track(order, { purpose: "flatten", reason });
+      } catch (error: any) {
+        report.errors.push(`第 ${attempts} 次平仓失败: ${error.message}`);
+      }
+    }
+    if (settleDelayMs > 0) await new Promise((resolve) => setTimeout(resolve, settleDelayMs));
+    try {
+      remaining = activeSizes(await gateClient.getPositions());
+    } catch (error: any) {
+      logger.error(`Failed to re-read positions after flatten attempt ${attempts}: ${error.message}`);
+    }
+  }
+
+  // 5. 重新读取挂单和触发单，撤销失败或期间新挂出的订单都会使结果不为 flat
+  let ordersVerified = true;
+  const [finalOrders, finalTriggerOrders] = await Promise.all([
+    gateClient.getOpenOrders().catch((error: any) => {
+      ordersVerified = false;
+      logger.error(`Failed to re-read open orders after flatten: ${error.message}`);
+      return [];
+    }),
+    gateClient.getPriceTriggerOrders().catch((error: any) => {
+      ordersVerified = false;
+      logger.error(`Failed to re-read trigger orders after flatten: ${error.message}`);
+      return [];
+    }),
+  ]);
+  for (const order of finalOrders || []) {
+    if (order.contract) reportFor(order.contract).remainingOrders++;
+  }
+  for (const order of finalTriggerOrders || []) {
+    if (order.initial?.contract) reportFor(order.initial.contract).remainingTriggerOrders++;
+  }
+
+  for (const report of reports.values()) {
+    report.finalSize = remaining.get(report.contract) ?? 0;
+    if (!ordersVerified) report.errors.push("无法重新读取挂单和触发单，未确认订单已撤销");
+    report.flat =
+      report.finalSize === 0 && report.remainingOrders === 0 && report.remainingTriggerOrders === 0 && ordersVerified;
+  }
+
+  const contractReports = [...reports.values()];
+  const flat = ordersVerified && contractReports.every((r) => r.flat);
+  if (flat) {
+    logger.warn(`Account flattened (${contractReports.length} contracts, ${attempts} attempts): ${reason}`);
+  } else {
+    logger.error(
+      `Account NOT flat after ${attempts} attempts: ${contractReports
+        .filter((r) => !r.flat)
+        .map((r) => `${r.contract} ${r.finalSize} (orders ${r.remainingOrders}, trigger orders ${r.remainingTriggerOrders})`)
+        .join(", ")}`,
+    );
+  }
+
+  return {
+    reason,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    flat,
+    attempts,
+    contracts: contractReports,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 强平距离保护
+ *
+ * 每个周期检查标记价格到强平价的距离（占标记价格的百分比），低于 triggerPercent 时：
+ * - add_margin：为逐仓持仓追加保证金，使强平价回到 targetPercent 的距离（可用资金不足或全仓时改为减仓）
+ * - reduce：用 reduce-only 订单减掉 reduceFraction 比例的仓位
+ * 通过 riskParams.liquidationGuard { triggerPercent, targetPercent, action, reduceFraction, maxMarginUsagePercent } 配置。
+ */
+import type { PositionSide } from "./forcedClose";
+
+export type LiquidationGuardAction = "reduce" | "add_margin";
+
+export interface LiquidationGuardConfig {
+  enabled: boolean;
+  /** 强平距离低于该百分比时触发 */
+  triggerPercent: number;
+  /** 追加保证金后希望恢复到的强平距离 */
+  targetPercent: number;
+  action: LiquidationGuardAction;
+  /** 减仓比例（0-1） */
+  reduceFraction: number;
+  /** 单次追加保证金最多使用可用资金的百分比 */
+  maxMarginUsagePercent: number;
+}
+
+export interface GuardedPosition {
+  symbol: string;
+  side: PositionSide;
+  /** 持仓张数（绝对值） */
+  quantity: number;
+  markPrice: number;
+  liquidationPrice: number;
+  /** 名义价值（USDT），用于换算追加保证金 */
+  notionalValue: number;
+  /** 0 表示全仓 */
+  leverage: number;
+}
+
+export interface LiquidationGuardDecision {
+  action: "none" | LiquidationGuardAction;
+  distancePercent: number;
+  /** reduce 时减仓张数 */
+  reduceQuantity?: number;
+  /** add_margin 时追加的保证金（USDT） */
+  marginToAdd?: number;
+  reason: string;
+}
+
+export function getLiquidationGuardConfig(riskParams: any = {}): LiquidationGuardConfig {
+  const guard = riskParams.liquidationGuard || {};
+  const triggerPercent = guard.triggerPercent ?? 3;
+  return {
+    enabled: guard.enabled ?? true,
+    triggerPercent,
+    targetPercent: Math.max(guard.targetPercent ?? triggerPercent * 2, triggerPercent),
+    action: guard.action === "add_margin" ? "add_margin" : "reduce",
+    reduceFraction: guard.reduceFraction ?? 0.5,
+    maxMarginUsagePercent: guard.maxMarginUsagePercent ?? 50,
+  };
+}
+
+/**
+ * 标记价格到强平价的距离（%）；没有强平价（例如 1 倍做多）时返回 Infinity
+ */
+export function liquidationDistancePercent(side: PositionSide, markPrice: number, liquidationPrice: number) {
+  if (!(liquidationPrice > 0) || !(markPrice > 0)) return Number.POSITIVE_INFINITY;
+  const distance = side === "long" ? markPrice - liquidationPrice : liquidationPrice - markPrice;
+  return (distance / markPrice) * 100;
+}
+
+/**
+ * 逐仓追加保证金使强平价移动到 targetPercent 距离所需的金额：
+ * 强平价每移动 1 USDT 需要 (持仓币数) USDT 保证金，持仓币数 = 名义价值 / 标记价格
+ */
+export function marginToReachDistance(position: GuardedPosition, targetPercent: number) {
+  const { side, markPrice, liquidationPrice, notionalValue } = position;
+  const coins = markPrice > 0 ? notionalValue / markPrice : 0;
+  const targetLiq = side === "long" ? markPrice * (1 - targetPercent / 100) : markPrice * (1 + targetPercent / 100);
+  const priceShift = side === "long" ? liquidationPrice - targetLiq : targetLiq - liquidationPrice;
+  return Math.max(0, priceShift * coins);
+}
+
+export function evaluateLiquidationGuard(
+  position: GuardedPosition,
+  config: LiquidationGuardConfig,
+  availableBalance: number,
+): LiquidationGuardDecision {
+  const distancePercent = liquidationDistancePercent(position.side, position.markPrice, position.liquidationPrice);
+  if (!config.enabled || distancePercent >= config.triggerPercent) {
+    return { action: "none", distancePercent, reason: "" };
+  }
+
+  const context = `${position.symbol} ${position.side} mark ${position.markPrice} is ${distancePercent.toFixed(2)}% from liquidation ${position.liquidationPrice} (< ${config.triggerPercent}%)`;
+
+  if (config.action === "add_margin" && position.leverage > 0) {
+    const marginToAdd = marginToReachDistance(position, config.targetPercent);
+    const budget = availableBalance * (config.maxMarginUsagePercent / 100);
+    if (marginToAdd > 0 && marginToAdd <= budget) {
+      return {
+        action: "add_margin",
+        distancePercent,
+        marginToAdd,
+        reason: `${context}, adding ${marginToAdd.toFixed(2)} USDT isolated margin to restore ${config.targetPercent}%`,
+      };
+    }
+  }
+
+  const reduceQuantity = Math.min(position.quantity, Math.max(1, Math.floor(position.quantity * config.reduceFraction)));
+  const fallback = config.action === "add_margin" ? " (not enough margin budget or cross margin, reducing instead)" : "";
+  return {
+    action: "reduce",
+    distancePercent,
+    reduceQuantity,
+    reason: `${context}, reducing ${reduceQuantity}/${position.quantity} contracts${fallback}`,
+  };
+}
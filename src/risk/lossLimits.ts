@@ -0,0 +1,172 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 单日亏损限额和连续亏损冷却
+ *
+ * - 单日亏损：窗口起点净值（含未实现盈亏）到当前净值的亏损超过限额时禁止新开仓。
+ *   窗口为滚动 24 小时（rolling）或 UTC 自然日（calendar）。
+ * - 连续亏损：最近 N 笔平仓全部亏损时，从最后一笔亏损平仓起冷却 cooldownMinutes 分钟。
+ * 两者触发期间引擎照常管理已有持仓，只跳过新开仓。
+ * 通过 riskParams.dailyLoss { window, maxLossPercent, maxLossUsdt } 和
+ * riskParams.lossStreak { maxConsecutiveLosses, cooldownMinutes } 配置。
+ */
+
+export type DailyLossWindow = "rolling" | "calendar";
+
+export interface LossLimitConfig {
+  dailyWindow: DailyLossWindow;
+  /** 单日最大亏损（占窗口起点净值的百分比） */
+  dailyMaxLossPercent: number;
+  /** 单日最大亏损（USDT），未设置时只按百分比判断 */
+  dailyMaxLossUsdt: number | null;
+  /** 连续亏损笔数达到该值后进入冷却，0 表示不启用 */
+  maxConsecutiveLosses: number;
+  cooldownMinutes: number;
+}
+
+/**
+ * 已平仓记录（listPositionClose 格式的子集）
+ */
+export interface ClosedTrade {
+  contract: string;
+  /** 平仓时间（秒） */
+  time: number;
+  pnl: number;
+}
+
+export interface DailyLossStatus {
+  window: DailyLossWindow;
+  windowStart: string;
+  referenceEquity: number;
+  equity: number;
+  lossUsdt: number;
+  lossPercent: number;
+  triggered: boolean;
+}
+
+export interface LossStreakStatus {
+  streak: number;
+  /** 冷却结束时间（ISO），未触发时为 null */
+  cooldownUntil: string | null;
+  active: boolean;
+}
+
+export interface LossLimitStatus {
+  daily: DailyLossStatus;
+  streak: LossStreakStatus;
+  /** 禁止新开仓的原因，未触发时为 undefined */
+  blockedReason?: string;
+}
+
+export function getLossLimitConfig(riskParams: any = {}): LossLimitConfig {
+  const daily = riskParams.dailyLoss || {};
+  const streak = riskParams.lossStreak || {};
+  return {
+    dailyWindow: daily.window === "calendar" ? "calendar" : "rolling",
+    dailyMaxLossPercent: daily.maxLossPercent ?? 5,
+    dailyMaxLossUsdt: daily.maxLossUsdt ?? null,
+    maxConsecutiveLosses: streak.maxConsecutiveLosses ?? 3,
+    cooldownMinutes: streak.cooldownMinutes ?? 120,
+  };
+}
+
+/**
+ * 单日亏损窗口起点：rolling 为 24 小时前，calendar 为当天 UTC 零点
+ */
+export function getDailyWindowStart(now: Date, window: DailyLossWindow) {
+  if (window === "rolling") {
+    return new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  }
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+export function evaluateDailyLoss(
+  equity: number,
+  referenceEquity: number,
+  config: LossLimitConfig,
+  windowStart: Date,
+): DailyLossStatus {
+  const lossUsdt = Math.max(0, referenceEquity - equity);
+  const lossPercent = referenceEquity > 0 ? (lossUsdt / referenceEquity) * 100 : 0;
+  const triggered =
+    lossPercent >= config.dailyMaxLossPercent || (config.dailyMaxLossUsdt !== null && lossUsdt >= config.dailyMaxLossUsdt);
+  return {
+    window: config.dailyWindow,
+    windowStart: windowStart.toISOString(),
+    referenceEquity,
+    equity,
+    lossUsdt,
+    lossPercent,
+    triggered,
+  };
+}
+
+/**
+ * closes 按任意顺序传入，从最近一笔开始统计连续亏损
+ */
+export function evaluateLossStreak(closes: ClosedTrade[], config: LossLimitConfig, now: Date): LossStreakStatus {
+  const sorted = [...closes].sort((a, b) => b.time - a.time);
+  let streak = 0;
+  for (const close of sorted) {
+    if (close.pnl >= 0) break;
+    streak++;
+  }
+
+  if (config.maxConsecutiveLosses <= 0 || streak < config.maxConsecutiveLosses) {
+    return { streak, cooldownUntil: null, active: false };
+  }
+
+  const cooldownUntil = new Date(sorted[0].time * 1000 + config.cooldownMinutes * 60 * 1000);
+  return {
+    streak,
+    cooldownUntil: cooldownUntil.toISOString(),
+    active: now.getTime() < cooldownUntil.getTime(),
+  };
+}
+
+export function evaluateLossLimits(daily: DailyLossStatus, streak: LossStreakStatus): LossLimitStatus {
+  const reasons: string[] = [];
+  if (daily.triggered) {
+    const label = daily.window === "rolling" ? "近 24 小时" : "今日";
+    reasons.push(
+      `${label}亏损 ${daily.lossUsdt.toFixed(2)} USDT（${daily.lossPercent.toFixed(2)}%）已达单日亏损限额`,
+    );
+  }
+  if (streak.active) {
+    reasons.push(`连续亏损 ${streak.streak} 笔，冷却至 ${streak.cooldownUntil}`);
+  }
+  return {
+    daily,
+    streak,
+    blockedReason: reasons.length > 0 ? reasons.join("；") : undefined,
+  };
+}
+
+/**
+ * 把交易所平仓记录转换为 ClosedTrade（兼容 position_close 的 pnl 和 settlements 的 profit 字段）
+ */
+export function toClosedTrades(records: any[]): ClosedTrade[] {
+  return (records || []).map((r) => ({
+    contract: r.contract,
+    time: Number(r.time || 0),
+    pnl: Number.parseFloat(r.pnl ?? r.profit ?? "0"),
+  }));
+}
@@ -0,0 +1,160 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 组合相关性风险
+ *
+ * 用 collectMarketData 已获取的 K 线计算各币种收益率的滚动相关系数和相对基准（默认 BTC）的 beta，
+ * 把持仓名义价值按 beta 折算为基准敞口：做多为正、做空为负，求和得到净方向敞口。
+ * BTC/ETH/SOL/XRP 同时做多时净敞口叠加，开仓风控按净敞口上限缩小或拒绝新单。
+ */
+
+export interface PortfolioRiskModel {
+  benchmark: string;
+  /** 参与计算的收益率样本数 */
+  sampleSize: number;
+  /** 相对基准的 beta */
+  betas: Record<string, number>;
+  /** 收益率相关系数矩阵 */
+  correlations: Record<string, Record<string, number>>;
+}
+
+export interface SymbolExposure {
+  symbol: string;
+  /** 带方向的名义价值（做多为正） */
+  notional: number;
+  beta: number;
+  /** 折算为基准的敞口 */
+  betaNotional: number;
+}
+
+export interface PortfolioExposure {
+  bySymbol: SymbolExposure[];
+  grossNotional: number;
+  netBetaNotional: number;
+  /** 净 beta 敞口 / 账户净值 */
+  netBetaMultiple: number;
+}
+
+/**
+ * 从 K 线（对象格式 { t, c } 或数组格式 [t, v, c, ...]）提取按时间排序的收盘价
+ */
+export function closesByTime(candles: any[]): Map<number, number> {
+  const result = new Map<number, number>();
+  for (const c of candles || []) {
+    const time = Array.isArray(c) ? Number(c[0]) : Number(c?.t);
+    const close = Array.isArray(c) ? Number.parseFloat(c[2]) : Number.parseFloat(c?.c);
+    if (Number.isFinite(time) && Number.isFinite(close) && close > 0) {
+      result.set(time, close);
+    }
+  }
+  return result;
+}
+
+/**
+ * 按共同时间戳对齐后计算每个币种的对数收益率
+ */
+export function alignedReturns(candlesBySymbol: Record<string, any[]>): Record<string, number[]> {
+  const series = Object.entries(candlesBySymbol).map(([symbol, candles]) => [symbol, closesByTime(candles)] as const);
+  if (series.length === 0) return {};
+
+  const common = [...series[0][1].keys()]
+    .filter((t) => series.every(([, closes]) => closes.has(t)))
+    .sort((a, b) => a - b);
+
+  const returns: Record<string, number[]> = {};
+  for (const [symbol, closes] of series) {
+    const aligned = common.map((t) => closes.get(t) as number);
+    returns[symbol] = aligned.slice(1).map((close, i) => Math.log(close / aligned[i]));
+  }
+  return returns;
+}
+
+function mean(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function covariance(a: number[], b: number[]) {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const ma = mean(a.slice(0, n));
+  const mb = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += (a[i] - ma) * (b[i] - mb);
+  return sum / (n - 1);
+}
+
+export function correlation(a: number[], b: number[]) {
+  const denom = Math.sqrt(covariance(a, a) * covariance(b, b));
+  return denom > 0 ? covariance(a, b) / denom : 0;
+}
+
+export function beta(asset: number[], benchmark: number[]) {
+  const variance = covariance(benchmark, benchmark);
+  return variance > 0 ? covariance(asset, benchmark) / variance : 1;
+}
+
+/**
+ * 由各币种 K 线构建相关性模型；基准不在列表中时取第一个币种
+ */
+export function buildPortfolioRiskModel(candlesBySymbol: Record<string, any[]>, benchmark = "BTC"): PortfolioRiskModel {
+  const returns = alignedReturns(candlesBySymbol);
+  const symbols = Object.keys(returns);
+  const bench = symbols.includes(benchmark) ? benchmark : symbols[0] || benchmark;
+  const benchReturns = returns[bench] || [];
+
+  const betas: Record<string, number> = {};
+  const correlations: Record<string, Record<string, number>> = {};
+  for (const a of symbols) {
+    betas[a] = a === bench ? 1 : beta(returns[a], benchReturns);
+    correlations[a] = {};
+    for (const b of symbols) {
+      correlations[a][b] = a === b ? 1 : correlation(returns[a], returns[b]);
+    }
+  }
+
+  return { benchmark: bench, sampleSize: benchReturns.length, betas, correlations };
+}
+
+/**
+ * 计算持仓的 beta 加权净敞口；positions 为交易所持仓（contract、size、value），
+ * 模型中没有的币种 beta 按 1 计
+ */
+export function calculatePortfolioExposure(
+  positions: any[],
+  model: PortfolioRiskModel | null,
+  equity: number,
+): PortfolioExposure {
+  const bySymbol = positions
+    .filter((p) => Number(p.size || 0) !== 0)
+    .map((p) => {
+      const symbol = String(p.contract).replace("_USDT", "");
+      const notional = Math.sign(Number(p.size)) * Math.abs(Number.parseFloat(p.value || "0"));
+      const b = model?.betas[symbol] ?? 1;
+      return { symbol, notional, beta: b, betaNotional: notional * b };
+    });
+
+  const grossNotional = bySymbol.reduce((sum, e) => sum + Math.abs(e.notional), 0);
+  const netBetaNotional = bySymbol.reduce((sum, e) => sum + e.betaNotional, 0);
+  return {
+    bySymbol,
+    grossNotional,
+    netBetaNotional,
+    netBetaMultiple: equity > 0 ? netBetaNotional / equity : 0,
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * ATR 波动率目标仓位计算
+ *
+ * sizing.mode = "atr" 时 Agent 只选择方向和信号强度（conviction），由系统计算仓位：
+ *   单笔风险 = 账户净值 × riskPerTradePercent% × 信号强度系数
+ *   止损距离 = ATR(atrPeriod, atrInterval) × stopAtrMultiple
+ *   名义价值 = 单笔风险 / 止损距离 × 价格，保证金 = 名义价值 / 杠杆
+ * 杠杆按信号强度在策略杠杆区间内选择：normal 取下限，strong 取上限，good 取中间。
+ * 通过 riskParams.sizing { mode, riskPerTradePercent, atrPeriod, atrInterval, stopAtrMultiple, convictionScale } 配置。
+ */
+import { calcATR } from "../utils/indicators";
+
+export type SizingMode = "manual" | "atr";
+
+export type ConvictionTier = "normal" | "good" | "strong";
+
+export const CONVICTION_TIERS: [ConvictionTier, ...ConvictionTier[]] = ["normal", "good", "strong"];
+
+export interface SizingConfig {
+  mode: SizingMode;
+  /** 单笔交易风险（占账户净值的百分比，strong 信号的满额风险） */
+  riskPerTradePercent: number;
+  atrPeriod: number;
+  /** 计算 ATR 的 K 线周期 */
+  atrInterval: string;
+  /** 止损距离 = ATR × stopAtrMultiple */
+  stopAtrMultiple: number;
+  /** 各信号强度的风险系数 */
+  convictionScale: Record<ConvictionTier, number>;
+}
+
+export interface AtrSizingRequest {
+  contract: string;
+  side: "long" | "short";
+  conviction: ConvictionTier;
+}
+
+export interface AtrSizingResult {
+  conviction: ConvictionTier;
+  equity: number;
+  price: number;
+  atr: number;
+  /** 本笔计划承担的风险（USDT） */
+  riskUsdt: number;
+  stopDistance: number;
+  /** 按 ATR 止损距离推算的止损价 */
+  stopPrice: number;
+  notional: number;
+  /** 保证金（USDT） */
+  amount: number;
+  leverage: number;
+}
+
+export function getSizingConfig(riskParams: any = {}): SizingConfig {
+  const sizing = riskParams.sizing || {};
+  return {
+    mode: sizing.mode === "atr" ? "atr" : "manual",
+    riskPerTradePercent: sizing.riskPerTradePercent ?? 1,
+    atrPeriod: sizing.atrPeriod ?? 14,
+    atrInterval: sizing.atrInterval ?? "1h",
+    stopAtrMultiple: sizing.stopAtrMultiple ?? 2,
+    convictionScale: { normal: 0.5, good: 0.75, strong: 1, ...(sizing.convictionScale || {}) },
+  };
+}
+
+/**
+ * 信号强度对应的杠杆（取整，落在 [leverageMin, leverageMax] 内）
+ */
+export function convictionLeverage(leverageMin: number, leverageMax: number, conviction: ConvictionTier) {
+  if (conviction === "strong") return leverageMax;
+  if (conviction === "good") return Math.round((leverageMin + leverageMax) / 2);
+  return leverageMin;
+}
+
+/**
+ * 从 K 线（FuturesCandlestick 对象 { h, l, c }）计算 ATR
+ */
+export function atrFromCandles(candles: any[], period: number) {
+  const highs = candles.map((c) => Number.parseFloat(c.h || "0"));
+  const lows = candles.map((c) => Number.parseFloat(c.l || "0"));
+  const closes = candles.map((c) => Number.parseFloat(c.c || "0"));
+  return calcATR(highs, lows, closes, period);
+}
+
+export function calculateAtrPositionSize(params: {
+  equity: number;
+  price: number;
+  atr: number;
+  side: "long" | "short";
+  conviction: ConvictionTier;
+  leverage: number;
+  config: SizingConfig;
+}): AtrSizingResult {
+  const { equity, price, atr, side, conviction, leverage, config } = params;
+  const riskUsdt = equity * (config.riskPerTradePercent / 100) * (config.convictionScale[conviction] ?? 1);
+  const stopDistance = atr * config.stopAtrMultiple;
+  const notional = stopDistance > 0 ? (riskUsdt / stopDistance) * price : 0;
+  return {
+    conviction,
+    equity,
+    price,
+    atr,
+    riskUsdt,
+    stopDistance,
+    stopPrice: side === "long" ? price - stopDistance : price + stopDistance,
+    notional,
+    amount: leverage > 0 ? notional / leverage : 0,
+    leverage,
+  };
+}
+
+/**
+ * 引擎级 ATR 仓位计算：读取最新净值、价格和 K 线后调用 calculateAtrPositionSize
+ */
+export class AtrPositionSizer {
+  constructor(
+    private readonly config: SizingConfig,
+    private readonly leverageRange: { leverageMin: number; leverageMax: number },
+    private readonly loadEquity: () => Promise<number>,
+    private readonly loadPrice: (contract: string) => Promise<number>,
+    private readonly loadCandles: (contract: string, interval: string, limit: number) => Promise<any[]>,
+  ) {}
+
+  getConfig() {
+    return this.config;
+  }
+
+  async size(request: AtrSizingRequest): Promise<AtrSizingResult> {
+    const [equity, price, candles] = await Promise.all([
+      this.loadEquity(),
+      this.loadPrice(request.contract),
+      this.loadCandles(request.contract, this.config.atrInterval, this.config.atrPeriod + 2),
+    ]);
+    const atr = atrFromCandles(candles || [], this.config.atrPeriod);
+    if (!(atr > 0)) {
+      throw new Error(`无法计算 ${request.contract} 的 ATR(${this.config.atrPeriod}, ${this.config.atrInterval})`);
+    }
+    if (!(price > 0)) {
+      throw new Error(`无法获取 ${request.contract} 的有效价格`);
+    }
+
+    const leverage = convictionLeverage(this.leverageRange.leverageMin, this.leverageRange.leverageMax, request.conviction);
+    return calculateAtrPositionSize({
+      equity,
+      price,
+      atr,
+      side: request.side,
+      conviction: request.conviction,
+      leverage,
+      config: this.config,
+    });
+  }
+}
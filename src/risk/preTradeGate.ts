@@ -0,0 +1,308 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 开仓前风控校验
+ *
+ * openPosition 下单前按顺序检查：
+ * 0. 回撤熔断：引擎处于 block_entries / halt 时禁止新开仓；合约上有卡住的平仓单时禁止该合约开仓
+ * 1. 账户回撤：净值（含未实现盈亏）从峰值回撤 >= maxDrawdownPercent 时禁止新开仓
+ * 2. 持仓数量：已达 maxPositions 时禁止开新币种（同币种加仓不受限）
+ * 3. 杠杆：超出策略区间时调整到区间边界；提高杠杆时按比例缩小保证金，名义价值不变
+ * 4. 单币种名义敞口、总名义敞口：超出上限时缩小保证金
+ * 5. beta 加权净方向敞口：按相关性模型折算后超过上限时缩小保证金（降低净敞口的订单不受限）
+ * 6. 可用保证金：超出可用资金时缩小保证金
+ * 缩小后的保证金低于 minOrderAmount 时拒绝。结果以结构化形式返回给 Agent。
+ */
+import { getStrategyParams, type TradingStrategy } from "../agents/tradingAgent";
+import { RISK_PARAMS } from "../config/riskParams";
+import { calculatePortfolioExposure, type PortfolioRiskModel } from "./portfolioRisk";
+
+export type PreTradeCheckName =
+  | "circuit_breaker"
+  | "contract_blocked"
+  | "drawdown"
+  | "position_count"
+  | "leverage"
+  | "symbol_notional"
+  | "total_notional"
+  | "beta_exposure"
+  | "margin";
+
+export interface PreTradeLimits {
+  maxPositions: number;
+  leverageMin: number;
+  leverageMax: number;
+  /** 单币种名义敞口上限（账户净值的倍数） */
+  maxSymbolNotionalMultiple: number;
+  /** 总名义敞口上限（账户净值的倍数） */
+  maxTotalNotionalMultiple: number;
+  /** beta 加权净方向敞口上限（账户净值的倍数，按绝对值） */
+  maxNetBetaExposureMultiple: number;
+  /** 账户从峰值回撤达到该百分比后禁止新开仓 */
+  maxDrawdownPercent: number;
+  /** 可用资金中预留给手续费的比例（%） */
+  marginBufferPercent: number;
+  /** 调整后的最小保证金（USDT），低于该值拒绝 */
+  minOrderAmount: number;
+  /** 按合约面值取整后的保证金与请求偏差超过该百分比时不下单，先把换算结果返回给 Agent 确认 */
+  maxSizingDeviationPercent: number;
+}
+
+export interface PreTradeRequest {
+  contract: string;
+  side: "long" | "short";
+  /** 保证金（USDT） */
+  amount: number;
+  leverage: number;
+}
+
+export interface PreTradeAccount {
+  /** 已实现余额（不含未实现盈亏） */
+  totalBalance: number;
+  availableBalance: number;
+  /** 未实现盈亏，净值 = totalBalance + unrealisedPnl */
+  unrealisedPnl?: number;
+  /** 峰值净值（含未实现盈亏，与回撤熔断口径一致） */
+  peakEquity?: number;
+  /** 引擎熔断禁止开仓时的原因 */
+  entriesBlockedReason?: string;
+  /** 按合约禁止开仓的原因（例如强制平仓 / 紧急平仓单卡住未完成） */
+  blockedContracts?: Record<string, string>;
+}
+
+export interface PreTradeViolation {
+  check: PreTradeCheckName;
+  /** rejected：拒绝下单；adjusted：已调整订单 */
+  outcome: "rejected" | "adjusted";
+  message: string;
+  limit?: number;
+  actual?: number;
+}
+
+export interface PreTradeResult {
+  allowed: boolean;
+  /** 调整后的保证金和杠杆 */
+  amount: number;
+  leverage: number;
+  violations: PreTradeViolation[];
+  /** 面向 Agent 的说明 */
+  reason: string;
+}
+
+/**
+ * 按策略参数和引擎 riskParams 生成开仓限制
+ */
+export function getPreTradeLimits(strategy: TradingStrategy, riskParams: any = {}): PreTradeLimits {
+  const params = getStrategyParams(strategy);
+  const leverageMax = Math.min(params.leverageMax, RISK_PARAMS.MAX_LEVERAGE);
+  const gate = riskParams.preTrade || {};
+  return {
+    maxPositions: gate.maxPositions ?? RISK_PARAMS.MAX_POSITIONS,
+    leverageMin: Math.min(params.leverageMin, leverageMax),
+    leverageMax,
+    maxSymbolNotionalMultiple: gate.maxSymbolNotionalMultiple ?? (params.positionSizeMax / 100) * leverageMax,
+    maxTotalNotionalMultiple: gate.maxTotalNotionalMultiple ?? params.leverageMax,
+    maxNetBetaExposureMultiple: gate.maxNetBetaExposureMultiple ?? params.leverageMax / 2,
+    maxDrawdownPercent: gate.maxDrawdownPercent ?? 15,
+    marginBufferPercent: gate.marginBufferPercent ?? 5,
+    minOrderAmount: gate.minOrderAmount ?? 1,
+    maxSizingDeviationPercent: gate.maxSizingDeviationPercent ?? 10,
+  };
+}
+
+function reject(request: PreTradeRequest, violations: PreTradeViolation[]): PreTradeResult {
+  return {
+    allowed: false,
+    amount: request.amount,
+    leverage: request.leverage,
+    violations,
+    reason: violations
+      .filter((v) => v.outcome === "rejected")
+      .map((v) => v.message)
+      .join("；"),
+  };
+}
+
+/**
+ * 校验一笔开仓；positions 为交易所持仓（含 contract、size、value），
+ * riskModel 为组合相关性模型（没有时各币种 beta 按 1 计）
+ */
+export function evaluatePreTrade(
+  request: PreTradeRequest,
+  account: PreTradeAccount,
+  positions: any[],
+  limits: PreTradeLimits,
+  riskModel: PortfolioRiskModel | null = null,
+): PreTradeResult {
+  const violations: PreTradeViolation[] = [];
+  // 回撤、名义敞口和 beta 上限都按含未实现盈亏的净值计算
+  const equity = account.totalBalance + (account.unrealisedPnl ?? 0);
+  const active = positions.filter((p) => Number(p.size || 0) !== 0);
+
+  // 0. 回撤熔断
+  if (account.entriesBlockedReason) {
+    violations.push({ check: "circuit_breaker", outcome: "rejected", message: account.entriesBlockedReason });
+    return reject(request, violations);
+  }
+  const contractBlockedReason = account.blockedContracts?.[request.contract];
+  if (contractBlockedReason) {
+    violations.push({ check: "contract_blocked", outcome: "rejected", message: contractBlockedReason });
+    return reject(request, violations);
+  }
+
+  // 1. 账户回撤
+  const peak = Math.max(account.peakEquity ?? equity, equity);
+  const drawdownPercent = peak > 0 ? ((peak - equity) / peak) * 100 : 0;
+  if (drawdownPercent >= limits.maxDrawdownPercent) {
+    violations.push({
+      check: "drawdown",
+      outcome: "rejected",
+      message: `账户从峰值回撤 ${drawdownPercent.toFixed(2)}% ≥ ${limits.maxDrawdownPercent}%，禁止新开仓`,
+      limit: limits.maxDrawdownPercent,
+      actual: drawdownPercent,
+    });
+    return reject(request, violations);
+  }
+
+  // 2. 持仓数量（同币种加仓不占新名额）
+  const existing = active.find((p) => p.contract === request.contract);
+  if (!existing && active.length >= limits.maxPositions) {
+    violations.push({
+      check: "position_count",
+      outcome: "rejected",
+      message: `已持有 ${active.length} 个仓位，达到上限 ${limits.maxPositions}`,
+      limit: limits.maxPositions,
+      actual: active.length,
+    });
+    return reject(request, violations);
+  }
+
+  // 3. 杠杆区间（风控不能放大敞口：杠杆上调时保证金同比缩小，杠杆下调时保证金不变）
+  let leverage = request.leverage;
+  let amount = request.amount;
+  if (leverage < limits.leverageMin || leverage > limits.leverageMax) {
+    leverage = Math.min(limits.leverageMax, Math.max(limits.leverageMin, leverage));
+    if (leverage > request.leverage) {
+      amount = (request.amount * request.leverage) / leverage;
+    }
+    violations.push({
+      check: "leverage",
+      outcome: "adjusted",
+      message:
+        leverage > request.leverage
+          ? `杠杆 ${request.leverage}x 低于策略区间 ${limits.leverageMin}-${limits.leverageMax}x，已调整为 ${leverage}x，保证金按名义价值不变调整为 ${amount.toFixed(2)} USDT`
+          : `杠杆 ${request.leverage}x 超出策略区间 ${limits.leverageMin}-${limits.leverageMax}x，已调整为 ${leverage}x`,
+      limit: leverage,
+      actual: request.leverage,
+    });
+  }
+
+  // 4. 名义敞口
+  const notionalOf = (p: any) => Math.abs(Number.parseFloat(p.value || "0"));
+  const symbolNotional = existing ? notionalOf(existing) : 0;
+  const totalNotional = active.reduce((sum, p) => sum + notionalOf(p), 0);
+  const caps: [PreTradeCheckName, number, number, string][] = [
+    ["symbol_notional", equity * limits.maxSymbolNotionalMultiple, symbolNotional, "单币种"],
+    ["total_notional", equity * limits.maxTotalNotionalMultiple, totalNotional, "总"],
+  ];
+  for (const [check, cap, current, label] of caps) {
+    const requested = amount * leverage;
+    if (current + requested <= cap) continue;
+    amount = Math.max(0, (cap - current) / leverage);
+    violations.push({
+      check,
+      outcome: "adjusted",
+      message: `${label}名义敞口 ${(current + requested).toFixed(2)} USDT 超过上限 ${cap.toFixed(2)} USDT，保证金调整为 ${amount.toFixed(2)} USDT`,
+      limit: cap,
+      actual: current + requested,
+    });
+  }
+
+  // 5. beta 加权净方向敞口
+  const exposure = calculatePortfolioExposure(active, riskModel, equity);
+  const symbol = request.contract.replace("_USDT", "");
+  const betaPerNotional = (request.side === "long" ? 1 : -1) * (riskModel?.betas[symbol] ?? 1);
+  const betaCap = equity * limits.maxNetBetaExposureMultiple;
+  const netAfter = exposure.netBetaNotional + betaPerNotional * amount * leverage;
+  if (Math.abs(netAfter) > betaCap && Math.abs(netAfter) > Math.abs(exposure.netBetaNotional)) {
+    const room = Math.max(0, betaCap - Math.sign(betaPerNotional) * exposure.netBetaNotional);
+    amount = Math.max(0, room / Math.abs(betaPerNotional) / leverage);
+    violations.push({
+      check: "beta_exposure",
+      outcome: "adjusted",
+      message: `beta 加权净敞口 ${netAfter.toFixed(2)} USDT 超过上限 ±${betaCap.toFixed(2)} USDT（${symbol} beta ${Math.abs(betaPerNotional).toFixed(2)}），保证金调整为 ${amount.toFixed(2)} USDT`,
+      limit: betaCap,
+      actual: Math.abs(netAfter),
+    });
+  }
+
+  // 6. 可用保证金
+  const usable = account.availableBalance * (1 - limits.marginBufferPercent / 100);
+  if (amount > usable) {
+    violations.push({
+      check: "margin",
+      outcome: "adjusted",
+      message: `保证金 ${amount.toFixed(2)} USDT 超过可用资金 ${usable.toFixed(2)} USDT，已调整`,
+      limit: usable,
+      actual: amount,
+    });
+    amount = Math.max(0, usable);
+  }
+
+  if (amount < limits.minOrderAmount) {
+    const binding = [...violations].reverse().find((v) => v.check !== "leverage") ?? violations[0];
+    violations.push({
+      check: binding?.check ?? "margin",
+      outcome: "rejected",
+      message: `调整后保证金 ${amount.toFixed(2)} USDT 低于最小下单金额 ${limits.minOrderAmount} USDT`,
+      limit: limits.minOrderAmount,
+      actual: amount,
+    });
+    return reject(request, violations);
+  }
+
+  return {
+    allowed: true,
+    amount,
+    leverage,
+    violations,
+    reason: violations.length > 0 ? violations.map((v) => v.message).join("；") : "通过开仓风控检查",
+  };
+}
+
+/**
+ * 引擎级开仓风控：下单前读取最新账户和持仓后调用 evaluatePreTrade
+ */
+export class PreTradeGate {
+  constructor(
+    private readonly limits: PreTradeLimits,
+    private readonly loadAccount: () => Promise<PreTradeAccount>,
+    private readonly loadPositions: () => Promise<any[]>,
+    private readonly loadRiskModel: () => PortfolioRiskModel | null = () => null,
+  ) {}
+
+  getLimits() {
+    return this.limits;
+  }
+
+  async check(request: PreTradeRequest) {
+    const [account, positions] = await Promise.all([this.loadAccount(), this.loadPositions()]);
+    return evaluatePreTrade(request, account, positions, this.limits, this.loadRiskModel());
+  }
+}
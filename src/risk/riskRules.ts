@@ -0,0 +1,332 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 可插拔的持仓风控规则
+ *
+ * 每条规则接收持仓和上下文，返回 close（全部平仓）、reduce（按比例减仓）或 hold。
+ * 规则按配置顺序执行：第一个 close 立即生效；没有 close 时执行第一个 reduce。
+ *
+ * 引擎通过 EngineConfig.riskParams.riskRules 选择和配置规则，例如：
+ *   "riskRules": [
+ *     { "rule": "stop_loss", "tiers": [{ "minLeverage": 10, "stopLossPercent": -4 }, { "minLeverage": 0, "stopLossPercent": -6 }] },
+ *     { "rule": "max_holding", "maxHoldingHours": 24 },
+ *     "trailing_stop",
+ *     { "rule": "break_even", "triggerPercent": 5 },
+ *     { "rule": "partial_take_profit", "levels": [{ "pnlPercent": 10, "closeFraction": 0.3 }, { "pnlPercent": 20, "closeFraction": 0.3 }] }
+ *   ]
+ * 只写规则名时使用默认参数；未配置 riskRules 时使用止损、持仓时间、移动止盈、峰值回撤四条规则（与原有强制平仓逻辑一致），
+ * 保本止损和分批止盈需要显式配置。
+ */
+import type { ForcedCloseThresholds, PositionSide, StopLossTier, TrailingStopLevel } from "./forcedClose";
+
+export interface RiskPosition {
+  symbol: string;
+  side: PositionSide;
+  leverage: number;
+  entryPrice: number;
+  currentPrice: number;
+  /** 持仓张数（绝对值） */
+  quantity: number;
+  holdingHours: number;
+  /** 当前盈亏百分比（已考虑杠杆） */
+  pnlPercent: number;
+  /** 持仓期间的最高盈亏百分比 */
+  peakPnlPercent: number;
+  /** 持仓期间的最大张数（分批止盈按该张数计算每档的平仓比例），缺省为当前张数 */
+  peakQuantity?: number;
+  /** 开仓时确定的止损距离（价格，ATR 仓位模式下与交易所端止损一致），设置时止损规则按该距离判断 */
+  stopDistance?: number;
+}
+
+export interface RiskContext {
+  engineId?: number;
+  now: Date;
+}
+
+export type RiskAction = "close" | "reduce" | "hold";
+
+export interface RiskDecision {
+  action: RiskAction;
+  /** 触发的规则名 */
+  rule?: string;
+  reason: string;
+  /** reduce 时减仓的比例（0-1） */
+  reduceFraction?: number;
+  /** reduce 时减仓的张数，设置时优先于 reduceFraction */
+  reduceQuantity?: number;
+}
+
+export interface RiskRule {
+  readonly name: string;
+  evaluate(position: RiskPosition, context: RiskContext): RiskDecision;
+  /**
+   * 可选：希望把交易所端止损（bracket）移动到的价格，没有时返回 null。
+   * 引擎只会收紧止损；evaluate 的轮询平仓保留为后备
+   */
+  stopLossPrice?(position: RiskPosition): number | null;
+}
+
+/**
+ * riskParams.riskRules 中的一项：规则名，或 { rule, ...参数 }
+ */
+export type RiskRuleConfig = string | ({ rule: string } & Record<string, any>);
+
+const HOLD: RiskDecision = { action: "hold", reason: "" };
+
+export function matchStopLossTier(tiers: StopLossTier[], leverage: number) {
+  const sorted = [...tiers].sort((a, b) => b.minLeverage - a.minLeverage);
+  const tier = sorted.find((t) => leverage >= t.minLeverage);
+  return tier ? tier.stopLossPercent : (sorted[sorted.length - 1]?.stopLossPercent ?? -5);
+}
+
+export function matchTrailingStop(ladder: TrailingStopLevel[], peakPnlPercent: number) {
+  const sorted = [...ladder].sort((a, b) => b.triggerPercent - a.triggerPercent);
+  const level = sorted.find((l) => peakPnlPercent >= l.triggerPercent);
+  return level ? level.stopPercent : null;
+}
+
+/**
+ * a) 持仓时间上限
+ */
+export function createMaxHoldingRule(params: { maxHoldingHours: number }): RiskRule {
+  return {
+    name: "max_holding",
+    evaluate(position) {
+      if (position.holdingHours < params.maxHoldingHours) return HOLD;
+      return {
+        action: "close",
+        rule: "max_holding",
+        reason: `Holding time reached ${position.holdingHours.toFixed(1)} hours, exceeding ${params.maxHoldingHours}-hour limit`,
+      };
+    },
+  };
+}
+
+/**
+ * b) 按杠杆分级的止损；持仓带有开仓止损距离（ATR 止损）时按该距离换算为杠杆后的盈亏百分比
+ */
+export function createStopLossRule(params: { tiers: StopLossTier[] }): RiskRule {
+  return {
+    name: "stop_loss",
+    evaluate(position) {
+      const { stopDistance, entryPrice } = position;
+      const useDistance = stopDistance !== undefined && stopDistance > 0 && entryPrice > 0;
+      const stopLossPercent = useDistance
+        ? -((stopDistance / entryPrice) * 100 * Math.max(1, position.leverage))
+        : matchStopLossTier(params.tiers, position.leverage);
+      if (position.pnlPercent > stopLossPercent) return HOLD;
+      return {
+        action: "close",
+        rule: "stop_loss",
+        reason: useDistance
+          ? `Stop distance ${stopDistance} triggered (${position.pnlPercent.toFixed(2)}% ≤ ${stopLossPercent.toFixed(2)}%)`
+          : `Dynamic stop loss triggered (${position.pnlPercent.toFixed(2)}% ≤ ${stopLossPercent}%)`,
+      };
+    },
+  };
+}
+
+/**
+ * c) 移动止盈阶梯（按峰值盈利匹配档位）
+ */
+export function createTrailingStopRule(params: { ladder: TrailingStopLevel[] }): RiskRule {
+  return {
+    name: "trailing_stop",
+    evaluate(position) {
+      const trailingStopPercent = matchTrailingStop(params.ladder, position.peakPnlPercent);
+      if (trailingStopPercent === null || position.pnlPercent >= trailingStopPercent) return HOLD;
+      return {
+        action: "close",
+        rule: "trailing_stop",
+        reason: `Trailing stop profit triggered (Current ${position.pnlPercent.toFixed(2)}% < Trailing Stop Line ${trailingStopPercent}%)`,
+      };
+    },
+  };
+}
+
+/**
+ * d) 峰值回撤保护（仅对曾经盈利超过阈值的持仓启用）
+ */
+export function createPeakDrawdownRule(params: { drawdownPercent: number; minProfitPercent: number }): RiskRule {
+  return {
+    name: "peak_drawdown",
+    evaluate(position) {
+      const { pnlPercent, peakPnlPercent } = position;
+      if (peakPnlPercent <= params.minProfitPercent) return HOLD;
+      const drawdownFromPeak = ((peakPnlPercent - pnlPercent) / peakPnlPercent) * 100;
+      if (drawdownFromPeak < params.drawdownPercent) return HOLD;
+      return {
+        action: "close",
+        rule: "peak_drawdown",
+        reason: `Peak drawdown protection triggered (Peak ${peakPnlPercent.toFixed(2)}% → Current ${pnlPercent.toFixed(2)}%, Drawdown ${drawdownFromPeak.toFixed(1)}% >= ${params.drawdownPercent}%)`,
+      };
+    },
+  };
+}
+
+export interface ProfitLevel {
+  /** 盈亏百分比（已考虑杠杆）达到该值时触发 */
+  pnlPercent: number;
+  /** 平掉最大持仓张数的比例（0-1） */
+  closeFraction: number;
+}
+
+export const DEFAULT_BREAK_EVEN = { triggerPercent: 5, feePercent: 0.1 };
+
+export const DEFAULT_PROFIT_LADDER: ProfitLevel[] = [
+  { pnlPercent: 10, closeFraction: 0.3 },
+  { pnlPercent: 20, closeFraction: 0.3 },
+];
+
+/**
+ * e) 保本止损：峰值盈利超过 triggerPercent 后，把交易所端止损移到入场价 ± 手续费；
+ * 盈利回落到该位置而止损单未成交时由轮询平仓兜底。
+ * feePercent 为开平仓手续费合计占价格的百分比，换算为杠杆后的盈亏百分比
+ */
+export function createBreakEvenRule(params: { triggerPercent: number; feePercent: number }): RiskRule {
+  return {
+    name: "break_even",
+    evaluate(position) {
+      if (position.peakPnlPercent < params.triggerPercent) return HOLD;
+      const breakEvenPercent = params.feePercent * Math.max(1, position.leverage);
+      if (position.pnlPercent > breakEvenPercent) return HOLD;
+      return {
+        action: "close",
+        rule: "break_even",
+        reason: `Break-even stop triggered (Peak ${position.peakPnlPercent.toFixed(2)}% ≥ ${params.triggerPercent}%, Current ${position.pnlPercent.toFixed(2)}% ≤ entry + fees ${breakEvenPercent.toFixed(2)}%)`,
+      };
+    },
+    stopLossPrice(position) {
+      if (position.peakPnlPercent < params.triggerPercent) return null;
+      const offset = position.entryPrice * (params.feePercent / 100);
+      return position.side === "long" ? position.entryPrice + offset : position.entryPrice - offset;
+    },
+  };
+}
+
+/**
+ * f) 分批止盈：盈利达到各档位时，把仓位减到最大张数 × (1 - 已触发档位的累计比例)。
+ * 按剩余张数判断是否已经止盈过，重启或减仓失败后下个周期会补齐，不会重复减仓
+ */
+export function createPartialTakeProfitRule(params: { levels: ProfitLevel[] }): RiskRule {
+  const sorted = [...params.levels].sort((a, b) => a.pnlPercent - b.pnlPercent);
+  return {
+    name: "partial_take_profit",
+    evaluate(position) {
+      const reached = sorted.filter((l) => position.pnlPercent >= l.pnlPercent);
+      if (reached.length === 0) return HOLD;
+
+      const closedFraction = Math.min(1, reached.reduce((sum, l) => sum + l.closeFraction, 0));
+      const level = reached[reached.length - 1];
+      const peakQuantity = Math.max(position.peakQuantity ?? position.quantity, position.quantity);
+      if (closedFraction >= 1) {
+        return {
+          action: "close",
+          rule: "partial_take_profit",
+          reason: `Take profit ladder completed at ${level.pnlPercent}% (Current ${position.pnlPercent.toFixed(2)}%)`,
+        };
+      }
+
+      const targetQuantity = Math.ceil(peakQuantity * (1 - closedFraction) - 1e-9);
+      const reduceQuantity = position.quantity - targetQuantity;
+      if (reduceQuantity <= 0) return HOLD;
+      return {
+        action: "reduce",
+        rule: "partial_take_profit",
+        reason: `Partial take profit at ${level.pnlPercent}% (Current ${position.pnlPercent.toFixed(2)}%), reducing ${reduceQuantity}/${position.quantity} contracts to ${targetQuantity} (${((1 - closedFraction) * 100).toFixed(0)}% of ${peakQuantity})`,
+        reduceQuantity,
+      };
+    },
+  };
+}
+
+/**
+ * 内置规则：规则名 → 工厂（缺省参数取 defaults）
+ */
+export const BUILTIN_RISK_RULES: Record<string, (params: Record<string, any>, defaults: ForcedCloseThresholds) => RiskRule> =
+  {
+    max_holding: (params, defaults) =>
+      createMaxHoldingRule({ maxHoldingHours: params.maxHoldingHours ?? defaults.maxHoldingHours }),
+    stop_loss: (params, defaults) => createStopLossRule({ tiers: params.tiers ?? defaults.stopLossTiers }),
+    trailing_stop: (params, defaults) => createTrailingStopRule({ ladder: params.ladder ?? defaults.trailingLadder }),
+    peak_drawdown: (params, defaults) =>
+      createPeakDrawdownRule({
+        drawdownPercent: params.drawdownPercent ?? defaults.peakDrawdownPercent,
+        minProfitPercent: params.minProfitPercent ?? defaults.peakDrawdownMinProfitPercent,
+      }),
+    break_even: (params) =>
+      createBreakEvenRule({
+        triggerPercent: params.triggerPercent ?? DEFAULT_BREAK_EVEN.triggerPercent,
+        feePercent: params.feePercent ?? DEFAULT_BREAK_EVEN.feePercent,
+      }),
+    partial_take_profit: (params) => createPartialTakeProfitRule({ levels: params.levels ?? DEFAULT_PROFIT_LADDER }),
+  };
+
+/**
+ * 由阈值生成内置规则（止损优先于持仓时间，与原有判断顺序一致）
+ */
+export function rulesFromThresholds(thresholds: ForcedCloseThresholds): RiskRule[] {
+  return ["stop_loss", "max_holding", "trailing_stop", "peak_drawdown"].map((name) =>
+    BUILTIN_RISK_RULES[name]({}, thresholds),
+  );
+}
+
+/**
+ * 按引擎配置创建规则列表，未知规则名抛出异常
+ */
+export function createRiskRules(configs: RiskRuleConfig[] | undefined, defaults: ForcedCloseThresholds): RiskRule[] {
+  if (!configs) return rulesFromThresholds(defaults);
+
+  return configs.map((config) => {
+    const { rule, ...params } = typeof config === "string" ? { rule: config } : config;
+    const factory = BUILTIN_RISK_RULES[rule];
+    if (!factory) {
+      throw new Error(`Unknown risk rule: ${rule}`);
+    }
+    return factory(params, defaults);
+  });
+}
+
+/**
+ * 各规则要求的交易所端止损价中最紧的一个（多头取最高，空头取最低），没有则返回 null
+ */
+export function getRuleStopLossPrice(rules: RiskRule[], position: RiskPosition): number | null {
+  let tightest: number | null = null;
+  for (const rule of rules) {
+    const price = rule.stopLossPrice?.(position) ?? null;
+    if (price === null || !(price > 0)) continue;
+    if (tightest === null || (position.side === "long" ? price > tightest : price < tightest)) {
+      tightest = price;
+    }
+  }
+  return tightest;
+}
+
+/**
+ * 依次执行规则：第一个 close 立即返回，否则返回第一个 reduce，都没有则 hold
+ */
+export function evaluateRiskRules(rules: RiskRule[], position: RiskPosition, context: RiskContext): RiskDecision {
+  let reduce: RiskDecision | null = null;
+  for (const rule of rules) {
+    const decision = rule.evaluate(position, context);
+    if (decision.action === "close") return decision;
+    if (decision.action === "reduce" && !reduce) reduce = decision;
+  }
+  return reduce || HOLD;
+}
@@ -18,14 +18,46 @@
 
 import cron from "node-cron";
 import { createLogger } from "../utils/logger";
-import { createClient } from "@libsql/client";
+import { type Client, createClient } from "@libsql/client";
 import { GateClient } from "../services/gateClient";
+import type { GateApiClient } from "../services/gateApiLocal";
+import { PaperExchange, createPublicMarketSource } from "../services/paperExchange";
+import { getPaperDatabaseUrl, getPaperDbClient } from "../database/paperDatabase";
 import { createTradingTools } from "../tools/trading/factory";
 import { Agent, Memory } from "@voltagent/core";
 import { LibSQLMemoryAdapter } from "@voltagent/libsql";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
 import { generateTradingPrompt, generateInstructions, TradingStrategy } from "../agents/tradingAgent";
 import { RISK_PARAMS } from "../config/riskParams";
+import { calculatePnlPercent, DEFAULT_FORCED_CLOSE_THRESHOLDS } from "../risk/forcedClose";
+import { createRiskRules, evaluateRiskRules, getRuleStopLossPrice, type RiskPosition, type RiskRule } from "../risk/riskRules";
+import { getPreTradeLimits, PreTradeGate, type PreTradeLimits } from "../risk/preTradeGate";
+import { AtrPositionSizer, getSizingConfig } from "../risk/positionSizing";
+import { BracketOrderManager, getBracketConfig } from "../risk/bracketOrders";
+import { flattenAccount, type FlattenReport } from "../risk/killSwitch";
+import { getOrderTrackerConfig, type OrderEvent, OrderTracker } from "../services/orderTracker";
+import { getEntryOrderConfig, LimitEntryExecutor } from "../services/limitEntry";
+import { buildPortfolioRiskModel, calculatePortfolioExposure, type PortfolioRiskModel } from "../risk/portfolioRisk";
+import {
+  type CircuitBreakerStatus,
+  evaluateCircuitBreaker,
+  getCircuitBreakerConfig,
+  isAtLeast,
+} from "../risk/circuitBreaker";
+import { CircuitBreakerStore } from "../database/circuitBreakerStore";
+import { BracketStateStore } from "../database/bracketStateStore";
+import { evaluateLiquidationGuard, getLiquidationGuardConfig } from "../risk/liquidationGuard";
+import {
+  evaluateDailyLoss,
+  evaluateLossLimits,
+  evaluateLossStreak,
+  getDailyWindowStart,
+  getLossLimitConfig,
+  type LossLimitStatus,
+  type LossStreakStatus,
+  toClosedTrades,
+} from "../risk/lossLimits";
+import { PositionPeakStore, positionPeakKey } from "../database/positionPeakStore";
 import {
   calculateIndicators,
   calculateIntradaySeries,
@@ -35,6 +67,9 @@ import {
 } from "../utils/indicators";
 import { getChinaTimeISO } from "../utils/timeUtils";
 import { createOpenAI } from "@ai-sdk/openai"; 
+import type { LanguageModel } from "ai";
+import { ScriptedModel, loadScriptedFixture } from "../services/scriptedModel";
+import { buildRunReport, defaultReportDir, writeReportBundle } from "../backtest/report";
 
 
 const logger = createLogger("agent-runner", "info");
@@ -58,6 +93,20 @@ export interface EngineConfig {
   modelName: string;
   strategy: string;
   riskParams: any;
+  /** live: 连接后端真实下单；paper: 使用内存模拟盘，不触碰真实账户 */
+  tradingMode?: "live" | "paper";
+}
+
+/**
+ * AgentRunner 运行时注入项（回测 / 离线测试使用）
+ */
+export interface AgentRunnerOptions {
+  /** 替换交易所客户端（例如回放行情驱动的 PaperExchange） */
+  client?: GateApiClient;
+  /** 时钟，回测时返回虚拟时间 */
+  now?: () => Date;
+  /** 替换模型（例如 ScriptedModel），优先于环境变量配置的模型 */
+  model?: LanguageModel;
 }
 
 export class AgentRunner {
@@ -67,20 +116,74 @@ export class AgentRunner {
   private cronTask: cron.ScheduledTask | null = null;
   private isRunning: boolean = false;
   private iterationCount: number = 0;
-  private startTime: Date = new Date();
+  private startTime: Date;
+  private readonly now: () => Date;
+  // 本地记录库：实盘为 DATABASE_URL，模拟盘为独立的 PAPER_DATABASE_URL
+  private readonly db: Client;
+  private readonly peakStore: PositionPeakStore;
+  // 持仓风控规则（riskParams.riskRules）
+  private readonly riskRules: RiskRule[];
+  // 账户回撤熔断（riskParams.circuitBreaker）
+  private readonly breakerStore: CircuitBreakerStore;
+  private readonly breakerConfig;
+  private breakerStatus: CircuitBreakerStatus | null = null;
+  // 单日亏损限额和连续亏损冷却（riskParams.dailyLoss / riskParams.lossStreak）
+  private readonly lossLimitConfig;
+  private lossLimitStatus: LossLimitStatus | null = null;
+  // 强平距离保护（riskParams.liquidationGuard）
+  private readonly liquidationGuardConfig;
+  // 开仓限制和组合相关性模型（每个周期由 collectMarketData 的 1h K 线更新）
+  private readonly preTradeLimits: PreTradeLimits;
+  private portfolioModel: PortfolioRiskModel | null = null;
+  // 交易所端止损止盈触发单（riskParams.bracket）
+  private readonly brackets: BracketOrderManager;
+  // ATR 仓位模式下止损规则使用触发单的 ATR 止损距离
+  private readonly atrStopLoss: boolean;
+  /** 跟踪引擎提交的订单直到成交 / 撤销 */
+  private readonly orderTracker: OrderTracker;
+  // 紧急平仓原因（设置后拒绝所有新开仓，包括正在执行的周期）
+  private flattenReason: string | null = null;
+  // 由本引擎创建的模拟盘（停止时输出运行报告）
+  private paperExchange: PaperExchange | null = null;
+  private readonly modelLabel: string;
+  private readonly instructions: string;
+  private lastPrompt = "";
   // 支持的币种
   private readonly SYMBOLS: string[];
 
-  constructor(config: EngineConfig) {
+  constructor(config: EngineConfig, options: AgentRunnerOptions = {}) {
     this.config = config;
+    this.now = options.now || (() => new Date());
+    this.startTime = this.now();
     
     // 获取配置的 URL
     const backendBaseUrl = process.env.BACKEND_API_URL || "";
 
     logger.info(`Initializing AgentRunner for Engine backendBaseUrl ${backendBaseUrl}, ${config.id} - ${config.name}`);
 
+    // 模拟盘模式：使用内存交易所，行情来自公共接口
+    let exchange: GateApiClient | undefined = options.client;
+    if (!exchange && config.tradingMode === "paper") {
+      const paperParams = config.riskParams?.paper || {};
+      this.paperExchange = new PaperExchange({
+        market: createPublicMarketSource(),
+        initialBalance: paperParams.initialBalance,
+        defaultLeverage: paperParams.defaultLeverage,
+        fillModel: paperParams.fill,
+      });
+      exchange = this.paperExchange;
+      logger.info(`Engine ${config.id} is running in paper trading mode`);
+    }
+
+    // 模拟盘与实盘共用 engine_id，写入同一个库会污染实盘的净值峰值、熔断和亏损基准
+    this.db = this.paperExchange ? getPaperDbClient() : dbClient;
+    this.peakStore = new PositionPeakStore(this.db);
+    this.breakerStore = new CircuitBreakerStore(this.db);
+
     // 实例化 GateClient，传入 URL
-    this.gateClient = new GateClient(config.apiKey, config.apiSecret, backendBaseUrl);
+    this.gateClient = new GateClient(config.apiKey, config.apiSecret, backendBaseUrl, exchange);
+    // 订单 text 标记 t-e{engineId}-c{iteration}-{seq}，每个周期开始时更新
+    this.gateClient.setOrderTagContext({ engineId: config.id, cycle: 0, cycleStartedAt: this.startTime });
 
     // Initialize symbols from config or default
     if (config.riskParams && config.riskParams.symbols && Array.isArray(config.riskParams.symbols) && config.riskParams.symbols.length > 0) {
@@ -91,10 +194,22 @@ export class AgentRunner {
 
     logger.info(`Engine ${config.id} will trade symbols: ${this.SYMBOLS.join(", ")}`);
 
-    // Determine whether to use local model or OpenRouter
+    this.riskRules = createRiskRules(config.riskParams?.riskRules, DEFAULT_FORCED_CLOSE_THRESHOLDS);
+    this.breakerConfig = getCircuitBreakerConfig(config.riskParams);
+    this.lossLimitConfig = getLossLimitConfig(config.riskParams);
+    this.liquidationGuardConfig = getLiquidationGuardConfig(config.riskParams);
+    logger.info(`Engine ${config.id} risk rules: ${this.riskRules.map((r) => r.name).join(", ")}`);
+
+    // Determine whether to use injected / scripted model, local model or OpenRouter
     const useLocalModel = process.env.USE_LOCAL_MODEL === 'true' ? true : false;
     let model: any;
-    if (useLocalModel) {
+    if (options.model) {
+      model = options.model;
+    } else if (process.env.SCRIPTED_MODEL_FIXTURE) {
+      // 离线回放 / 集成测试：按 fixture 文件返回确定的回复和工具调用
+      model = new ScriptedModel(loadScriptedFixture(process.env.SCRIPTED_MODEL_FIXTURE));
+      logger.info(`Engine ${config.id} is using scripted model: ${process.env.SCRIPTED_MODEL_FIXTURE}`);
+    } else if (useLocalModel) {
       const baseURL = process.env.CUSTOM_MODEL_BASE_URL || "http://http://10.9.0.4:11434/v1";
       const apiKey = process.env.CUSTOM_MODEL_API_KEY || "no-key";
       const modelName = process.env.AI_MODEL_NAME || "qwen2.5:7b";
@@ -116,20 +231,82 @@ export class AgentRunner {
 
     const memory = new Memory({
       storage: new LibSQLMemoryAdapter({
-        url: process.env.DATABASE_URL || "file:./.voltagent/trading.db",
+        url: this.paperExchange ? getPaperDatabaseUrl() : process.env.DATABASE_URL || "file:./.voltagent/trading.db",
       }),
       // namespace: `engine_${config.id}`, // MemoryConfig 可能不支持 namespace，或者需要通过其他方式隔离
       // 暂时移除 namespace，LibSQLMemoryAdapter 内部可能需要支持 session_id 来区分
     });
 
+    const strategy = (config.strategy as TradingStrategy) || "balanced";
+
+    // 开仓风控：下单前读取最新账户（含峰值净值）和持仓
+    this.preTradeLimits = getPreTradeLimits(strategy, config.riskParams);
+    const preTradeGate = new PreTradeGate(
+      this.preTradeLimits,
+      async () => ({
+        ...(await this.getAccountInfo()),
+        peakEquity: (await this.breakerStore.getPeakEquity(this.config.id)) ?? undefined,
+        entriesBlockedReason: this.getEntryBlockReason(),
+        blockedContracts: this.getBlockedContracts(),
+      }),
+      () => this.gateClient.getPositions(),
+      () => this.portfolioModel,
+    );
+
+    // ATR 仓位模式（riskParams.sizing.mode = "atr"）：仓位和杠杆由系统计算
+    const sizingConfig = getSizingConfig(config.riskParams);
+    this.atrStopLoss = sizingConfig.mode === "atr";
+    const sizer = sizingConfig.mode === "atr"
+      ? new AtrPositionSizer(
+          sizingConfig,
+          this.preTradeLimits,
+          async () => (await this.getAccountInfo()).totalBalance,
+          async (contract) => Number.parseFloat((await this.gateClient.getFuturesTicker(contract)).last || "0"),
+          (contract, interval, limit) => this.gateClient.getFuturesCandles(contract, interval, limit),
+        )
+      : undefined;
+
+    this.brackets = new BracketOrderManager(this.gateClient, getBracketConfig(config.riskParams), {
+      store: new BracketStateStore(this.db),
+      engineId: config.id,
+    });
+
+    // 回测时虚拟时钟不随等待前进，下单后只查询一次，未成交的订单在后续周期跟踪
+    const trackerConfig = getOrderTrackerConfig(config.riskParams);
+    this.orderTracker = new OrderTracker(
+      this.gateClient,
+      options.now ? { ...trackerConfig, waitTimeoutMs: 0 } : trackerConfig,
+      this.now,
+    );
+    this.orderTracker.onEvent((event) => this.handleOrderEvent(event));
+
+    // 限价 / post-only 开仓（riskParams.entry.mode），默认市价单
+    // 回测时虚拟时钟在一次工具调用内不前进，挂单只在提交时检查一次，未立即成交即撤销
+    const entryConfig = getEntryOrderConfig(config.riskParams);
+    if (entryConfig.mode !== "market" && options.now) {
+      logger.warn(`[Engine ${config.id}] ${entryConfig.mode} entries cannot rest in simulated time, unfilled orders are cancelled immediately`);
+    }
+    const entry = entryConfig.mode !== "market"
+      ? new LimitEntryExecutor(
+          this.gateClient,
+          this.orderTracker,
+          options.now ? { ...entryConfig, repriceIntervalMs: 0, timeoutMs: 0 } : entryConfig,
+        )
+      : undefined;
+
     // 创建工具集（传入 gateClient 和 gateClient.client）
-    const tools = createTradingTools(this.gateClient, this.gateClient.client);
+    const tools = createTradingTools(this.gateClient, this.gateClient.client, preTradeGate, sizer, this.brackets, this.orderTracker, entry);
 
     // 使用详细的策略指令生成 System Prompt
     // 默认执行间隔为 1 分钟 (与 cron 调度一致)
     const intervalMinutes = 1;
-    const strategy = (config.strategy as TradingStrategy) || "balanced";
-    const instructions = generateInstructions(strategy, intervalMinutes);
+    const instructions = generateInstructions(strategy, intervalMinutes, {
+      atrSizing: !!sizer,
+      entryMode: entryConfig.mode,
+      circuitBreaker: this.breakerConfig,
+    });
+    this.instructions = instructions;
+    this.modelLabel = typeof model === "string" ? model : `${model.provider}:${model.modelId}`;
 
     this.agent = new Agent({
       name: `quant-engine-${config.id}`,
@@ -142,15 +319,21 @@ export class AgentRunner {
 
   /**
    * 启动引擎
+   * @param options.schedule 为 false 时不启动定时任务，由调用方通过 runCycle 驱动（回测）
    */
-  public start() {
+  public start(options: { schedule?: boolean } = {}) {
     if (this.isRunning) {
       logger.warn(`Engine ${this.config.id} is already running`);
       return;
     }
 
     this.isRunning = true;
-    this.startTime = new Date();
+    this.startTime = this.now();
+
+    if (options.schedule === false) {
+      logger.info(`Engine ${this.config.id} started in manual mode`);
+      return;
+    }
     
     // 立即执行一次
     this.executeCycle();
@@ -179,6 +362,88 @@ export class AgentRunner {
 
     logger.info(`Engine ${this.config.id} stopped`);
     this.updateStatus("stopped");
+
+    if (this.paperExchange) {
+      this.writePaperReport().catch((error) => {
+        logger.error(`Failed to write paper report for engine ${this.config.id}:`, error);
+      });
+    }
+  }
+
+  /**
+   * 模型标识和提示词（运行报告使用）
+   */
+  public getPromptInfo() {
+    return {
+      model: this.modelLabel,
+      instructions: this.instructions,
+      lastPrompt: this.lastPrompt || undefined,
+    };
+  }
+
+  /**
+   * 模拟盘运行结束：用 account_history 的权益快照和模拟盘成交记录输出报告
+   * 权益曲线为含未实现盈亏的净值；模拟盘接口按时间倒序返回记录，报告中统一改为正序（与回测一致）
+   */
+  private async writePaperReport() {
+    const exchange = this.paperExchange;
+    if (!exchange) return;
+
+    const startTime = this.startTime.getTime();
+    const endTime = this.now().getTime();
+    const history = await this.db.execute({
+      sql: `SELECT timestamp, total_value, unrealized_pnl FROM account_history
+            WHERE engine_id = ? AND timestamp >= ? ORDER BY timestamp ASC`,
+      args: [this.config.id, this.startTime.toISOString()],
+    });
+    const equityCurve = history.rows.map((row: any) => ({
+      timestamp: Date.parse(row.timestamp as string),
+      equity: Number(row.total_value) + Number(row.unrealized_pnl || 0),
+    }));
+
+    const all = { limit: Number.MAX_SAFE_INTEGER };
+    const closedPositions = (await exchange.futures.listFuturesSettlementHistory("usdt", all)).body;
+    const trades = (await exchange.futures.getMyFuturesTrades("usdt", all)).body;
+    const liquidations = (await exchange.futures.listFuturesLiquidatedOrders("usdt", all)).body;
+
+    const report = buildRunReport({
+      kind: "paper",
+      engineId: this.config.id,
+      engineName: this.config.name,
+      strategy: this.config.strategy,
+      ...this.getPromptInfo(),
+      startTime,
+      endTime,
+      initialBalance: equityCurve.length > 0 ? equityCurve[0].equity : (this.config.riskParams?.paper?.initialBalance ?? 10000),
+      equityCurve,
+      closedPositions: closedPositions.slice().reverse(),
+      trades: trades.slice().reverse(),
+      fundingPayments: exchange.getFundingPayments(),
+      liquidations: liquidations.slice().reverse(),
+    });
+    const { htmlPath } = writeReportBundle(report, defaultReportDir("paper", this.config.id, this.now()));
+    logger.info(`[Engine ${this.config.id}] Paper report written to ${htmlPath}`);
+  }
+
+  /**
+   * 手动执行一个交易周期（需先以 schedule: false 启动）
+   */
+  public async runCycle() {
+    await this.executeCycle();
+  }
+
+  /**
+   * 引擎是否处于运行状态（账户止损/止盈触发后会自动停止）
+   */
+  public isActive() {
+    return this.isRunning;
+  }
+
+  /**
+   * 引擎配置（API 按 tradingMode 选择数据库、返回生效的风控阈值）
+   */
+  public getConfig(): EngineConfig {
+    return this.config;
   }
 
   /**
@@ -205,7 +470,7 @@ export class AgentRunner {
       const totalBalance = accountTotal - unrealisedPnl;
 
       // Get initial capital from database (specific to this engine)
-      const initialResult = await dbClient.execute({
+      const initialResult = await this.db.execute({
         sql: "SELECT total_value FROM account_history WHERE engine_id = ? ORDER BY timestamp ASC LIMIT 1",
         args: [this.config.id]
       });
@@ -215,7 +480,7 @@ export class AgentRunner {
         : totalBalance; // Default fallback to current balance
       
       // Get peak balance
-      const peakResult = await dbClient.execute({
+      const peakResult = await this.db.execute({
         sql: "SELECT MAX(total_value) as peak_value FROM account_history WHERE engine_id = ?",
         args: [this.config.id]
       });
@@ -273,10 +538,13 @@ export class AgentRunner {
             entry_price: Number.parseFloat(p.entryPrice || "0"),
             current_price: Number.parseFloat(p.markPrice || "0"),
             liquidation_price: Number.parseFloat(p.liqPrice || "0"),
+            notional_value: Math.abs(Number.parseFloat(p.value || "0")),
             unrealized_pnl: Number.parseFloat(p.unrealisedPnl || "0"),
             leverage: Number.parseInt(p.leverage || "1"),
             margin: Number.parseFloat(p.margin || "0"),
-            opened_at: p.create_time || getChinaTimeISO(),
+            opened_at: p.openTime
+              ? new Date(p.openTime * 1000).toISOString()
+              : p.create_time || getChinaTimeISO(this.now()),
           };
         });
     } catch (error) {
@@ -302,7 +570,8 @@ export class AgentRunner {
       const trades = result.body.map((order: any) => {
         const size = Number.parseFloat(order.size || "0");
         // Gate API timestamp 是秒
-        const timestamp = order.create_time ? new Date(order.create_time * 1000).toISOString() : new Date().toISOString();
+        const createTime = order.createTime || order.create_time;
+        const timestamp = createTime ? new Date(createTime * 1000).toISOString() : this.now().toISOString();
         
         return {
           symbol: order.contract,
@@ -333,7 +602,7 @@ export class AgentRunner {
    */
   private async getRecentDecisions(limit: number = 3) {
     try {
-      const result = await dbClient.execute({
+      const result = await this.db.execute({
         sql: `SELECT timestamp, iteration, decision, account_value, positions_count 
               FROM agent_decisions 
               WHERE engine_id = ?
@@ -385,95 +654,172 @@ export class AgentRunner {
   }
 
   /**
-   * Mandatory Risk Check & Position Management
-   * Includes: 36h forced close, dynamic stop loss, trailing stop profit, peak drawdown protection
+   * 更新账户回撤熔断状态（峰值取 account_history，状态持久化到 circuit_breakers）
    */
-  private async checkRiskAndManagePositions(positions: any[]): Promise<boolean> {
-    let positionsChanged = false;
-
-    for (const pos of positions) {
-      const symbol = pos.symbol;
-      const side = pos.side;
-      const leverage = pos.leverage;
-      const entryPrice = pos.entry_price;
-      const currentPrice = pos.current_price;
-      
-      // Calculate PnL percent (considering leverage)
-      const priceChangePercent = entryPrice > 0
-        ? ((currentPrice - entryPrice) / entryPrice * 100 * (side === 'long' ? 1 : -1))
-        : 0;
-      const pnlPercent = priceChangePercent * leverage;
+  private async updateCircuitBreaker(accountInfo: any) {
+    try {
+      const previous = await this.breakerStore.getStatus(this.config.id);
+      const equity = accountInfo.totalBalance + (accountInfo.unrealisedPnl || 0);
+      const peak = (await this.breakerStore.getPeakEquity(this.config.id)) ?? equity;
+      const status = evaluateCircuitBreaker(equity, peak, this.breakerConfig, previous, this.now());
+
+      if (status.level !== (previous?.level || "normal")) {
+        const message = `[Engine ${this.config.id}] Circuit breaker ${previous?.level || "normal"} → ${status.level}: ${status.reason || "drawdown recovered"}`;
+        if (isAtLeast(status.level, "block_entries")) logger.error(message);
+        else logger.warn(message);
+      }
 
-      // 注意：peak_pnl_percent 追踪功能已禁用，因为不再使用本地 positions 表
-      // 简化处理：使用当前 pnlPercent 作为判断依据
-      const peakPnlPercent = pnlPercent;
+      await this.breakerStore.save(this.config.id, status, this.now());
+      this.breakerStatus = status;
+      return status;
+    } catch (error: any) {
+      logger.error(`[Engine ${this.config.id}] Failed to update circuit breaker: ${error.message}`);
+      return this.breakerStatus;
+    }
+  }
 
-      let shouldClose = false;
-      let closeReason = "";
+  /**
+   * 更新单日亏损和连续亏损状态：窗口起点净值取 account_history，连续亏损取永续合约平仓记录
+   */
+  private async updateLossLimits(accountInfo: any) {
+    try {
+      const now = this.now();
+      const windowStart = getDailyWindowStart(now, this.lossLimitConfig.dailyWindow);
+      const equity = accountInfo.totalBalance + (accountInfo.unrealisedPnl || 0);
+
+      // 窗口起点之前的最后一个快照；引擎在窗口内才启动时取窗口内第一个快照
+      const before = await this.db.execute({
+        sql: `SELECT total_value, unrealized_pnl FROM account_history
+              WHERE engine_id = ? AND timestamp <= ? ORDER BY timestamp DESC LIMIT 1`,
+        args: [this.config.id, windowStart.toISOString()],
+      });
+      const after = before.rows.length > 0 ? before : await this.db.execute({
+        sql: `SELECT total_value, unrealized_pnl FROM account_history
+              WHERE engine_id = ? AND timestamp > ? ORDER BY timestamp ASC LIMIT 1`,
+        args: [this.config.id, windowStart.toISOString()],
+      });
+      const reference = after.rows[0];
+      const referenceEquity = reference
+        ? Number(reference.total_value) + Number(reference.unrealized_pnl || 0)
+        : equity;
+
+      // 连续亏损取永续合约平仓记录（position_close）；读取失败时沿用上次的冷却结束时间，不解除已生效的冷却
+      const previousStreak = this.lossLimitStatus?.streak;
+      let streak: LossStreakStatus;
+      try {
+        const closeRecords = await this.gateClient.getPositionCloseHistory(
+          undefined,
+          Math.max(this.lossLimitConfig.maxConsecutiveLosses, 1) * 2,
+        );
+        streak = evaluateLossStreak(toClosedTrades(closeRecords), this.lossLimitConfig, now);
+      } catch (error: any) {
+        logger.error(`[Engine ${this.config.id}] Failed to read position close history: ${error.message}`);
+        streak = previousStreak?.cooldownUntil
+          ? { ...previousStreak, active: now.getTime() < Date.parse(previousStreak.cooldownUntil) }
+          : { streak: previousStreak?.streak ?? 0, cooldownUntil: null, active: false };
+      }
 
-      // a) 36-hour forced close check
-      const openedTime = new Date(pos.opened_at);
-      const now = new Date();
-      const holdingHours = (now.getTime() - openedTime.getTime()) / (1000 * 60 * 60);
+      const previous = this.lossLimitStatus?.blockedReason;
+      const status = evaluateLossLimits(
+        evaluateDailyLoss(equity, referenceEquity, this.lossLimitConfig, windowStart),
+        streak,
+      );
 
-      if (holdingHours >= 36) {
-        shouldClose = true;
-        closeReason = `Holding time reached ${holdingHours.toFixed(1)} hours, exceeding 36-hour limit`;
+      if (status.blockedReason && !previous) {
+        logger.warn(`[Engine ${this.config.id}] New entries paused: ${status.blockedReason}`);
+      } else if (!status.blockedReason && previous) {
+        logger.info(`[Engine ${this.config.id}] Loss limits cleared, new entries allowed`);
       }
 
-      // b) Dynamic stop loss check (based on leverage)
-      let stopLossPercent = -5; // Default
-      if (leverage >= 12) {
-        stopLossPercent = -3;
-      } else if (leverage >= 8) {
-        stopLossPercent = -4;
-      } else {
-        stopLossPercent = -5;
-      }
+      this.lossLimitStatus = status;
+      return status;
+    } catch (error: any) {
+      logger.error(`[Engine ${this.config.id}] Failed to update loss limits: ${error.message}`);
+      return this.lossLimitStatus;
+    }
+  }
 
-      if (pnlPercent <= stopLossPercent) {
-        shouldClose = true;
-        closeReason = `Dynamic stop loss triggered (${pnlPercent.toFixed(2)}% ≤ ${stopLossPercent}%)`;
-      }
-      
-      // c) Trailing stop profit check
-      if (!shouldClose) {
-        let trailingStopPercent = stopLossPercent; // Default use initial stop loss
-        
-        if (pnlPercent >= 25) {
-          trailingStopPercent = 15;
-        } else if (pnlPercent >= 15) {
-          trailingStopPercent = 8;
-        } else if (pnlPercent >= 8) {
-          trailingStopPercent = 3;
-        }
-        
-        // If current PnL is below trailing stop line
-        if (pnlPercent < trailingStopPercent && trailingStopPercent > stopLossPercent) {
-          shouldClose = true;
-          closeReason = `Trailing stop profit triggered (Current ${pnlPercent.toFixed(2)}% < Trailing Stop Line ${trailingStopPercent}%)`;
-        }
-      }
-      
-      // d) Peak drawdown protection (if position was profitable)
-      if (!shouldClose && peakPnlPercent > 5) {
-        // Only enable peak drawdown protection for positions that were profitable by more than 5%
-        const drawdownFromPeak = peakPnlPercent > 0 
-          ? ((peakPnlPercent - pnlPercent) / peakPnlPercent) * 100 
-          : 0;
-        
-        if (drawdownFromPeak >= 30) {
-          shouldClose = true;
-          closeReason = `Peak drawdown protection triggered (Peak ${peakPnlPercent.toFixed(2)}% → Current ${pnlPercent.toFixed(2)}%, Drawdown ${drawdownFromPeak.toFixed(1)}% >= 30%)`;
-        }
+  /**
+   * 禁止新开仓的原因：回撤熔断达到 block_entries 及以上，或单日亏损 / 连续亏损冷却生效
+   */
+  private getEntryBlockReason() {
+    const reasons: string[] = [];
+    if (this.flattenReason) {
+      reasons.push(`引擎已紧急平仓停止：${this.flattenReason}`);
+    }
+    const breaker = this.breakerStatus;
+    if (breaker && isAtLeast(breaker.level, "block_entries")) {
+      reasons.push(`回撤熔断 ${breaker.level}：${breaker.reason}`);
+    }
+    if (this.lossLimitStatus?.blockedReason) {
+      reasons.push(this.lossLimitStatus.blockedReason);
+    }
+    return reasons.length > 0 ? reasons.join("；") : undefined;
+  }
+
+  /**
+   * 按合约禁止开仓的原因：平仓类订单（Agent 平仓、强制平仓、强平保护减仓、紧急平仓）卡住未完成时，
+   * 在该合约上开新仓会与未完成的平仓单冲突
+   */
+  private getBlockedContracts() {
+    const blocked: Record<string, string> = {};
+    for (const order of this.orderTracker.getOpenOrders()) {
+      if (!order.stuck || order.purpose === "open" || blocked[order.contract]) continue;
+      blocked[order.contract] = `${order.contract} 的${order.purpose}订单 #${order.id} 卡住未完成（${order.state}，已成交 ${Math.abs(order.filledSize)}/${Math.abs(order.size)} 张），完成前禁止该合约开仓`;
+    }
+    return blocked;
+  }
+
+  /**
+   * 更新每个持仓的峰值盈亏（持久化到 position_peaks，已平仓的记录随之删除），
+   * 并写入 pos.peak_pnl_percent / pos.peak_quantity 供强制平仓规则和提示词使用
+   */
+  private async trackPositionPeaks(positions: any[]) {
+    try {
+      const tracked = positions.map((pos) => ({
+        contract: pos.contract,
+        side: pos.side,
+        opened_at: pos.opened_at,
+        pnlPercent: calculatePnlPercent(pos.side, pos.entry_price, pos.current_price, pos.leverage),
+        quantity: pos.quantity,
+      }));
+      const peaks = await this.peakStore.sync(this.config.id, tracked, this.now());
+      for (const pos of positions) {
+        const peak = peaks.get(positionPeakKey(pos.contract, pos.side, pos.opened_at));
+        pos.peak_pnl_percent = peak?.peakPnlPercent;
+        pos.peak_quantity = peak?.peakQuantity;
       }
-      
-      // Execute forced close
-      if (shouldClose) {
-        logger.warn(`[Engine ${this.config.id}] [Forced Close] ${symbol} ${side} - ${closeReason}`);
+    } catch (error: any) {
+      logger.error(`[Engine ${this.config.id}] Failed to track position peaks: ${error.message}`);
+    }
+    return positions;
+  }
+
+  /**
+   * Mandatory Risk Check & Position Management
+   * 按引擎配置的风控规则（riskParams.riskRules，默认：止损、持仓时间、移动止盈、峰值回撤）平仓或减仓
+   */
+  private async checkRiskAndManagePositions(positions: any[]): Promise<boolean> {
+    let positionsChanged = false;
+
+    for (const pos of positions) {
+      const symbol = pos.symbol;
+      const side = pos.side;
+      const decision = evaluateRiskRules(this.riskRules, this.toRiskPosition(pos), {
+        engineId: this.config.id,
+        now: this.now(),
+      });
+      const closeReason = decision.reason;
+
+      // Execute forced close / reduce
+      if (decision.action !== "hold") {
+        const closeQuantity = decision.action === "reduce"
+          ? Math.min(pos.quantity, Math.max(1, decision.reduceQuantity ?? Math.floor(pos.quantity * (decision.reduceFraction ?? 0.5))))
+          : pos.quantity;
+        logger.warn(`[Engine ${this.config.id}] [Forced ${decision.action === "reduce" ? "Reduce" : "Close"}] ${symbol} ${side} ${closeQuantity}/${pos.quantity} - ${closeReason}`);
         try {
           const contract = `${symbol}_USDT`;
-          const size = side === 'long' ? -pos.quantity : pos.quantity;
+          const size = side === 'long' ? -closeQuantity : closeQuantity;
           
           // 1. Place close order
           const order = await this.gateClient.placeOrder({
@@ -485,55 +831,29 @@ export class AgentRunner {
           
           logger.info(`[Engine ${this.config.id}] ✅ Forced close order placed for ${symbol}, Order ID: ${order.id}`);
           
-          // 2. Wait for order completion and get fill info (max 5 retries)
-          let actualExitPrice = 0;
-          let actualQuantity = Math.abs(pos.quantity);
+          // 2. Track the order until it is finished and compute PnL from the actual fills
+          const tracked = await this.orderTracker.track(order, { purpose: "forced_close", reason: closeReason });
+          const fill = (await this.orderTracker.waitForTerminal(tracked.id)) ?? tracked;
+          const filledQuantity = Math.abs(fill.filledSize);
           let pnl = 0;
-          let totalFee = 0;
-          let orderFilled = false;
           
-          for (let retry = 0; retry < 5; retry++) {
-            await new Promise(resolve => setTimeout(resolve, 500));
+          if (filledQuantity > 0) {
+            const metadata = await this.gateClient.getContractMetadata(contract);
+            const entryPrice = pos.entry_price;
+            const priceChange = side === "long" 
+              ? (fill.avgFillPrice - entryPrice) 
+              : (entryPrice - fill.avgFillPrice);
+            const grossPnl = priceChange * filledQuantity * metadata.quantoMultiplier;
             
-            try {
-              const orderStatus = await this.gateClient.getOrder(order.id?.toString() || "");
-              
-              if (orderStatus.status === 'finished') {
-                actualExitPrice = Number.parseFloat(orderStatus.fillPrice ||  orderStatus.fill_price || orderStatus.price || "0");
-                actualQuantity = Math.abs(Number.parseFloat(orderStatus.size || "0"));
-                orderFilled = true;
-                
-                // Get contract multiplier
-                let quantoMultiplier = 0.01;
-                try {
-                  const contractInfo = await this.gateClient.getContractInfo(contract);
-                  quantoMultiplier = Number.parseFloat(contractInfo.quantoMultiplier || "0.01");
-                } catch (err) {
-                  logger.warn(`[Engine ${this.config.id}] Failed to get contract info, using default multiplier 0.01`);
-                }
-                
-                // Calculate PnL
-                const entryPrice = pos.entry_price;
-                const priceChange = side === "long" 
-                  ? (actualExitPrice - entryPrice) 
-                  : (entryPrice - actualExitPrice);
-                
-                const grossPnl = priceChange * actualQuantity * quantoMultiplier;
-                
-                // Calculate fees (open + close)
-                const openFee = entryPrice * actualQuantity * quantoMultiplier * 0.0005;
-                const closeFee = actualExitPrice * actualQuantity * quantoMultiplier * 0.0005;
-                totalFee = openFee + closeFee;
-                
-                // Net PnL
-                pnl = grossPnl - totalFee;
-                
-                logger.info(`[Engine ${this.config.id}] Close filled: Price=${actualExitPrice}, Qty=${actualQuantity}, PnL=${pnl.toFixed(2)} USDT`);
-                break;
-              }
-            } catch (statusError: any) {
-              logger.warn(`[Engine ${this.config.id}] Failed to query order status (Retry ${retry + 1}/5): ${statusError.message}`);
-            }
+            // Fees: estimated open fee for the closed quantity + the close order's actual fee
+            const openFee = entryPrice * filledQuantity * metadata.quantoMultiplier * metadata.takerFeeRate;
+            pnl = grossPnl - openFee - fill.fee;
+            
+            logger.info(`[Engine ${this.config.id}] Close filled (${fill.state}): Price=${fill.avgFillPrice}, Qty=${filledQuantity}/${closeQuantity}, Fee=${fill.fee.toFixed(4)}, PnL=${pnl.toFixed(2)} USDT`);
+          } else if (!this.orderTracker.isTerminal(fill)) {
+            logger.warn(`[Engine ${this.config.id}] Forced close order ${fill.id} for ${symbol} not filled yet (${fill.state}), tracking in later cycles`);
+          } else {
+            logger.warn(`[Engine ${this.config.id}] Forced close order ${fill.id} for ${symbol} finished without fills (${fill.finishAs})`);
           }
           
           // 3. Record to trades table (REMOVED: backend now handles storage)
@@ -552,28 +872,161 @@ export class AgentRunner {
   }
 
   /**
-   * Close all positions
+   * getPositions 的持仓转换为风控规则的输入
+   */
+  private toRiskPosition(pos: any): RiskPosition {
+    const holdingHours = (this.now().getTime() - new Date(pos.opened_at).getTime()) / (1000 * 60 * 60);
+    const pnlPercent = calculatePnlPercent(pos.side, pos.entry_price, pos.current_price, pos.leverage);
+    return {
+      symbol: pos.symbol,
+      side: pos.side,
+      leverage: pos.leverage,
+      entryPrice: pos.entry_price,
+      currentPrice: pos.current_price,
+      quantity: pos.quantity,
+      holdingHours,
+      pnlPercent,
+      peakPnlPercent: Math.max(pos.peak_pnl_percent ?? pnlPercent, pnlPercent),
+      peakQuantity: pos.peak_quantity,
+      stopDistance: this.atrStopLoss ? this.brackets.getStopDistance(pos.contract) : undefined,
+    };
+  }
+
+  /**
+   * 按风控规则收紧交易所端止损（例如保本止损：峰值盈利达标后移到入场价 ± 手续费）。
+   * 当前价已越过目标止损价时不挂单，由规则的轮询平仓处理
+   */
+  private async moveBracketStops(positions: any[]) {
+    for (const pos of positions) {
+      const position = this.toRiskPosition(pos);
+      const stopLossPrice = getRuleStopLossPrice(this.riskRules, position);
+      if (stopLossPrice === null) continue;
+      const beyondStop = pos.side === "long" ? pos.current_price > stopLossPrice : pos.current_price < stopLossPrice;
+      if (!beyondStop) continue;
+
+      try {
+        await this.brackets.moveStopLoss(
+          pos.contract,
+          stopLossPrice,
+          `peak ${position.peakPnlPercent.toFixed(2)}%, current ${position.pnlPercent.toFixed(2)}%`,
+        );
+      } catch (error: any) {
+        logger.error(`[Engine ${this.config.id}] Failed to move stop loss for ${pos.contract}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 强平距离保护：标记价格接近强平价时追加逐仓保证金或 reduce-only 减仓
+   * 已有未完成减仓单的合约跳过，避免延迟成交期间按同一仓位重复减仓
+   * @returns 是否有持仓被调整
    */
-  private async closeAllPositions(reason: string) {
+  private async guardLiquidationDistance(positions: any[], availableBalance: number): Promise<boolean> {
+    let adjusted = false;
+    let available = availableBalance;
+    const pending = new Map(
+      this.orderTracker
+        .getOpenOrders()
+        .filter((order) => order.purpose === "liquidation_guard")
+        .map((order) => [order.contract, order]),
+    );
+
+    for (const pos of positions) {
+      const pendingOrder = pending.get(pos.contract);
+      if (pendingOrder) {
+        logger.info(
+          `[Engine ${this.config.id}] [Liquidation Guard] ${pos.contract} skipped: reduce-only order #${pendingOrder.id} still ${pendingOrder.state}`,
+        );
+        continue;
+      }
+
+      const decision = evaluateLiquidationGuard(
+        {
+          symbol: pos.symbol,
+          side: pos.side,
+          quantity: pos.quantity,
+          markPrice: pos.current_price,
+          liquidationPrice: pos.liquidation_price,
+          notionalValue: pos.notional_value,
+          leverage: pos.leverage,
+        },
+        this.liquidationGuardConfig,
+        available,
+      );
+      if (decision.action === "none") continue;
+
+      logger.warn(`[Engine ${this.config.id}] [Liquidation Guard] ${decision.reason}`);
+      try {
+        if (decision.action === "add_margin" && decision.marginToAdd) {
+          await this.gateClient.updatePositionMargin(pos.contract, decision.marginToAdd);
+          available -= decision.marginToAdd;
+          logger.info(`[Engine ${this.config.id}] ✅ Added ${decision.marginToAdd.toFixed(2)} USDT margin to ${pos.contract}`);
+        } else if (decision.action === "reduce" && decision.reduceQuantity) {
+          const order = await this.gateClient.placeOrder({
+            contract: pos.contract,
+            size: pos.side === "long" ? -decision.reduceQuantity : decision.reduceQuantity,
+            price: 0,
+            reduceOnly: true,
+          });
+          logger.info(`[Engine ${this.config.id}] ✅ Reduce-only order placed for ${pos.contract}, Order ID: ${order.id}`);
+          await this.orderTracker.track(order, { purpose: "liquidation_guard", reason: decision.reason });
+        }
+        adjusted = true;
+      } catch (error: any) {
+        logger.error(`[Engine ${this.config.id}] Liquidation guard failed for ${pos.contract}: ${error.message}`);
+      }
+    }
+
+    return adjusted;
+  }
+
+  /**
+   * 订单事件日志：卡住的订单按错误记录，卡住的平仓单在完成前禁止该合约开仓（见 getBlockedContracts）；
+   * 成交结果随下一轮 Prompt 交给 Agent，延迟成交的订单在 pollOpen 之后由持仓同步和止损止盈同步（5.6）处理
+   */
+  private handleOrderEvent(event: OrderEvent) {
+    const label = `[Engine ${this.config.id}] [Order ${event.type}] ${event.message}`;
+    if (event.type === "stuck") {
+      logger.error(`${label}${event.order.reason ? ` - ${event.order.reason}` : ""}`);
+      if (event.order.purpose !== "open") {
+        logger.warn(`[Engine ${this.config.id}] New entries on ${event.order.contract} blocked until order ${event.order.id} finishes`);
+      }
+    } else {
+      logger.info(label);
+    }
+  }
+
+  /**
+   * Close all positions: cancel open / trigger orders, reduce-only close, verify flat
+   */
+  private async closeAllPositions(reason: string): Promise<FlattenReport | null> {
     try {
-      const positions = await this.gateClient.getPositions();
-      const activePositions = positions.filter((p: any) => Number.parseInt(p.size || "0") !== 0);
-      
-      for (const pos of activePositions) {
-        const size = Number.parseInt(pos.size || "0");
-        const contract = pos.contract;
-        await this.gateClient.placeOrder({
-          contract,
-          size: -size,
-          price: 0,
-        });
-        logger.info(`[Engine ${this.config.id}] Closed position ${contract} due to: ${reason}`);
+      const report = await flattenAccount(this.gateClient, `[Engine ${this.config.id}] ${reason}`, { tracker: this.orderTracker });
+      for (const contract of report.contracts) {
+        logger.info(
+          `[Engine ${this.config.id}] ${contract.contract}: ${contract.initialSize} -> ${contract.finalSize}${contract.errors.length > 0 ? ` (${contract.errors.join("; ")})` : ""} due to: ${reason}`,
+        );
       }
+      await this.brackets.syncAll(await this.gateClient.getPositions());
+      return report;
     } catch (error) {
       logger.error(`[Engine ${this.config.id}] Failed to close all positions:`, error as any);
+      return null;
     }
   }
 
+  /**
+   * 紧急平仓：停止引擎，撤销全部挂单和触发单，平掉全部持仓并确认
+   */
+  public async flatten(reason: string): Promise<FlattenReport> {
+    this.flattenReason = reason;
+    this.stop();
+    const report = await flattenAccount(this.gateClient, `[Engine ${this.config.id}] ${reason}`, { tracker: this.orderTracker });
+    // 触发单已全部撤销，清理本地记录
+    await this.brackets.syncAll([]);
+    return report;
+  }
+
   /**
    * 执行一个交易周期
    */
@@ -582,7 +1035,8 @@ export class AgentRunner {
 
     this.iterationCount++;
     const engineId = this.config.id;
-    const minutesElapsed = Math.floor((Date.now() - this.startTime.getTime()) / 60000);
+    this.gateClient.setOrderTagContext({ engineId, cycle: this.iterationCount, cycleStartedAt: this.now() });
+    const minutesElapsed = Math.floor((this.now().getTime() - this.startTime.getTime()) / 60000);
     const intervalMinutes = 1; // Default or from config
 
     logger.info(`Engine ${engineId} cycle #${this.iterationCount} started`);
@@ -608,19 +1062,51 @@ export class AgentRunner {
         return;
       }
 
-      // 4. Sync & Get Positions
-      const rawGatePositions = await this.gateClient.getPositions();
-      let positions = await this.getPositions(rawGatePositions);
+      // 3.5 Drawdown circuit breaker
+      const breaker = await this.updateCircuitBreaker(accountInfo);
+      if (breaker?.level === "halt") {
+        await this.closeAllPositions(`Circuit breaker halt: ${breaker.reason}`);
+        this.stop();
+        return;
+      }
+
+      // 3.6 Daily loss limit & losing-streak cooldown (only blocks new entries)
+      const lossLimits = await this.updateLossLimits(accountInfo);
+
+      // 3.7 Follow orders submitted in earlier cycles (late fills, stuck orders)
+      await this.orderTracker.pollOpen();
+
+      // 4. Sync & Get Positions (bracket state is restored first so risk rules see the ATR stop distance)
+      await this.brackets.load();
+      let rawGatePositions = await this.gateClient.getPositions();
+      let positions = await this.trackPositionPeaks(await this.getPositions(rawGatePositions));
 
       // 5. Risk Management & Position Control
       const positionsChanged = await this.checkRiskAndManagePositions(positions);
       
       if (positionsChanged) {
         // Refresh positions if any were closed
-        const updatedRawPositions = await this.gateClient.getPositions();
-        positions = await this.getPositions(updatedRawPositions);
+        rawGatePositions = await this.gateClient.getPositions();
+        positions = await this.trackPositionPeaks(await this.getPositions(rawGatePositions));
+      }
+
+      // 5.5 Liquidation distance guard
+      if (await this.guardLiquidationDistance(positions, accountInfo.availableBalance)) {
+        rawGatePositions = await this.gateClient.getPositions();
+        positions = await this.trackPositionPeaks(await this.getPositions(rawGatePositions));
       }
 
+      // 5.6 Exchange-side stop loss / take profit: re-place after forced close, reduce or manual changes
+      await this.brackets.syncAll(rawGatePositions);
+      await this.moveBracketStops(positions);
+
+      // 5.7 Portfolio correlation exposure
+      const portfolioRisk = {
+        model: this.portfolioModel,
+        exposure: calculatePortfolioExposure(rawGatePositions, this.portfolioModel, accountInfo.totalBalance),
+        maxNetBetaExposureMultiple: this.preTradeLimits.maxNetBetaExposureMultiple,
+      };
+
       // 6. Record Account Snapshot
       await this.recordAccountSnapshot(accountInfo);
 
@@ -634,11 +1120,15 @@ export class AgentRunner {
         iteration: this.iterationCount,
         intervalMinutes,
         marketData,
-        accountInfo,
+        accountInfo: { ...accountInfo, circuitBreaker: breaker, lossLimits },
         positions,
+        portfolioRisk,
         tradeHistory,
-        recentDecisions
+        recentDecisions,
+        orderEvents: this.orderTracker.drainEvents(),
+        currentTime: this.now(),
       });
+      this.lastPrompt = prompt;
 
       logger.info(`[Engine ${engineId}] Generating decision...`);
       
@@ -709,13 +1199,13 @@ export class AgentRunner {
 
   private async recordDecision(decisionText: string, marketData: any, accountValue: number, positionsCount: number) {
     try {
-      await dbClient.execute({
+      await this.db.execute({
         sql: `INSERT INTO agent_decisions 
               (engine_id, timestamp, iteration, market_analysis, decision, actions_taken, account_value, positions_count)
               VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
           this.config.id,
-          new Date().toISOString(),
+          this.now().toISOString(),
           this.iterationCount,
           JSON.stringify(marketData), // Store market data summary
           decisionText,
@@ -733,13 +1223,13 @@ export class AgentRunner {
     try {
       const info = accountInfo || await this.getAccountInfo();
       
-      await dbClient.execute({
+      await this.db.execute({
         sql: `INSERT INTO account_history 
               (engine_id, timestamp, total_value, available_cash, unrealized_pnl, realized_pnl, return_percent)
               VALUES (?, ?, ?, ?, ?, ?, ?)`,
         args: [
           this.config.id,
-          new Date().toISOString(),
+          this.now().toISOString(),
           info.totalBalance,
           info.availableBalance,
           info.unrealisedPnl,
@@ -757,6 +1247,7 @@ export class AgentRunner {
    */
   private async collectMarketData() {
     const marketData: Record<string, any> = {};
+    const hourlyCandles: Record<string, any[]> = {};
 
     for (const symbol of this.SYMBOLS) {
       try {
@@ -795,6 +1286,7 @@ export class AgentRunner {
         const candles15m = await this.gateClient.getFuturesCandles(contract, "15m", 96);
         const candles30m = await this.gateClient.getFuturesCandles(contract, "30m", 90);
         const candles1h = await this.gateClient.getFuturesCandles(contract, "1h", 120);
+        hourlyCandles[symbol] = candles1h;
         
         // 计算每个时间框架的指标
         const indicators1m = calculateIndicators(candles1m);
@@ -846,14 +1338,14 @@ export class AgentRunner {
         };
         
         // 保存技术指标到数据库
-        await dbClient.execute({
+        await this.db.execute({
           sql: `INSERT INTO trading_signals 
                 (engine_id, symbol, timestamp, price, ema_20, ema_50, macd, rsi_7, rsi_14, volume, funding_rate)
                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           args: [
             this.config.id,
             symbol,
-            getChinaTimeISO(),
+            getChinaTimeISO(this.now()),
             ensureFinite(marketData[symbol].price),
             ensureFinite(indicators.ema20),
             ensureFinite(indicators.ema50),
@@ -869,6 +1361,9 @@ export class AgentRunner {
       }
     }
 
+    // 用 1h K 线更新组合相关性模型（开仓风控和提示词使用）
+    this.portfolioModel = buildPortfolioRiskModel(hourlyCandles, this.config.riskParams?.portfolio?.benchmark);
+
     return marketData;
   }
 }
@@ -19,6 +19,8 @@
 import { AgentRunner, EngineConfig } from "./AgentRunner";
 import { createLogger } from "../utils/logger";
 import { GateApiLocal } from "../services/gateApiLocal";
+import { GateClient } from "../services/gateClient";
+import { flattenAccount, type FlattenReport } from "../risk/killSwitch";
 
 const logger = createLogger("engine-manager", "info");
 
@@ -28,6 +30,13 @@ const logger = createLogger("engine-manager", "info");
 // For now, we assume the backend API is accessible.
 const backendApi = new GateApiLocal("system", "system", process.env.BACKEND_API_URL || "");
 
+function failedFlattenReport(engineId: number, reason: string, error: any): FlattenReport {
+  const message = error?.message || String(error);
+  logger.error(`Engine ${engineId} flatten failed: ${message}`);
+  const now = new Date().toISOString();
+  return { reason, startedAt: now, finishedAt: now, flat: false, attempts: 0, contracts: [], error: message };
+}
+
 export class EngineManager {
   private static instance: EngineManager;
   private runners: Map<number, AgentRunner> = new Map();
@@ -72,22 +81,8 @@ export class EngineManager {
 
     try {
       // 1. 获取配置
-      const { body } = await backendApi.futures.getQuantEngineConfig(engineId);
-      const engineData = body.data;
-
-      if (!engineData) {
-        throw new Error(`Engine ${engineId} not found`);
-      }
-      logger.info(`Starting engine ${engineId} with config: ${JSON.stringify(engineData)} `);
-      const config: EngineConfig = {
-        id: engineData.id,
-        name: engineData.name,
-        apiKey: engineData.apiKey,
-        apiSecret: engineData.apiSecret,
-        modelName: engineData.modelName,
-        strategy: engineData.strategy,
-        riskParams: engineData.riskParams || {},
-      };
+      const config = await this.loadEngineConfig(engineId);
+      logger.info(`Starting engine ${engineId} with config: ${JSON.stringify(config)} `);
 
       // 2. 创建并启动 Runner
       const runner = new AgentRunner(config);
@@ -117,6 +112,96 @@ export class EngineManager {
     logger.info(`Engine ${engineId} stopped.`);
   }
 
+  /**
+   * 紧急平仓单个引擎：停止 Runner，撤销挂单和触发单，reduce-only 平仓并确认。
+   * 引擎未在本进程运行时（实盘）直接用引擎的 API Key 平仓；未运行的模拟盘没有持仓可平。
+   * Runner 停止后平仓失败（例如读取持仓出错）时返回 flat=false 的报告，而不是抛出异常。
+   */
+  public async flattenEngine(engineId: number, reason: string): Promise<FlattenReport & { engineId: number; mode: string }> {
+    const runner = this.runners.get(engineId);
+    if (runner) {
+      this.runners.delete(engineId);
+      const report = await runner.flatten(reason).catch((error) => failedFlattenReport(engineId, reason, error));
+      logger.warn(`Engine ${engineId} flattened and stopped (flat=${report.flat}).`);
+      return { engineId, mode: "running", ...report };
+    }
+
+    const config = await this.loadEngineConfig(engineId);
+    if (config.tradingMode === "paper") {
+      const now = new Date().toISOString();
+      return { engineId, mode: "paper_stopped", reason, startedAt: now, finishedAt: now, flat: true, attempts: 0, contracts: [] };
+    }
+    const gateClient = new GateClient(config.apiKey, config.apiSecret, process.env.BACKEND_API_URL || "");
+    gateClient.setOrderTagContext({ engineId, cycle: 0, cycleStartedAt: new Date() });
+    const report = await flattenAccount(gateClient, `[Engine ${engineId}] ${reason}`).catch((error) =>
+      failedFlattenReport(engineId, reason, error),
+    );
+    logger.warn(`Engine ${engineId} (not running) flattened (flat=${report.flat}).`);
+    return { engineId, mode: "stopped", ...report };
+  }
+
+  /**
+   * 全局紧急停止：平掉本进程中所有运行中的引擎，以及后端列出的已停止引擎
+   * （已停止的实盘引擎账户上可能仍有持仓或触发单）
+   */
+  public async killSwitch(reason: string) {
+    const engineIds = new Set<number>(this.runners.keys());
+    let listError: string | undefined;
+    try {
+      const { body } = await backendApi.futures.getQuantEngines();
+      for (const engine of body.data || []) {
+        engineIds.add(Number(engine.id));
+      }
+    } catch (error: any) {
+      listError = error?.message || String(error);
+      logger.error(`Kill switch failed to list engines from backend, flattening running engines only: ${listError}`);
+    }
+
+    const ids = [...engineIds];
+    logger.warn(`Kill switch activated for ${ids.length} engines: ${reason}`);
+    const results = await Promise.allSettled(ids.map((id) => this.flattenEngine(id, reason)));
+    const reports: Array<{ engineId: number | null; flat: boolean; error?: string }> = results.map((result, i) =>
+      result.status === "fulfilled"
+        ? result.value
+        : { engineId: ids[i], flat: false, error: result.reason?.message || String(result.reason) },
+    );
+    // 引擎列表读取失败时无法确认已停止的引擎是否平仓
+    if (listError) {
+      reports.push({ engineId: null, flat: false, error: `Failed to list engines: ${listError}` });
+    }
+    return reports;
+  }
+
+  /**
+   * 从后端加载引擎配置
+   */
+  private async loadEngineConfig(engineId: number): Promise<EngineConfig> {
+    const { body } = await backendApi.futures.getQuantEngineConfig(engineId);
+    const engineData = body.data;
+
+    if (!engineData) {
+      throw new Error(`Engine ${engineId} not found`);
+    }
+    return {
+      id: engineData.id,
+      name: engineData.name,
+      apiKey: engineData.apiKey,
+      apiSecret: engineData.apiSecret,
+      modelName: engineData.modelName,
+      strategy: engineData.strategy,
+      riskParams: engineData.riskParams || {},
+      tradingMode: (engineData.tradingMode || engineData.riskParams?.tradingMode) === "paper" ? "paper" : "live",
+    };
+  }
+
+  /**
+   * 获取引擎配置：运行中的引擎返回其生效配置，否则从后端加载
+   */
+  public async getEngineConfig(engineId: number): Promise<EngineConfig> {
+    const runner = this.runners.get(engineId);
+    return runner ? runner.getConfig() : this.loadEngineConfig(engineId);
+  }
+
   /**
    * 获取引擎状态
    */
@@ -0,0 +1,141 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 合约元数据缓存
+ *
+ * 合约面值、价格精度、张数限制、维持保证金率、杠杆上限和手续费率很少变化，
+ * 按合约缓存 ttlMs（默认 10 分钟），避免每次下单都请求 getFuturesContract。
+ * 下单、止损止盈触发价、盈亏计算和 calculateRisk 统一从这里读取，不再使用写死的 0.01 面值。
+ */
+import type { GateApiClient } from "./gateApiLocal";
+
+export interface ContractMetadata {
+  contract: string;
+  /** 每张合约对应的币数量 */
+  quantoMultiplier: number;
+  /** 价格最小变动单位 */
+  orderPriceRound: number;
+  orderSizeMin: number;
+  orderSizeMax: number;
+  maintenanceRate: number;
+  leverageMin: number;
+  leverageMax: number;
+  makerFeeRate: number;
+  takerFeeRate: number;
+  /** 获取时间（毫秒） */
+  fetchedAt: number;
+}
+
+function num(value: any, fallback: number) {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * 解析 getFuturesContract 返回值（兼容 camelCase 和 snake_case）
+ */
+export function parseContractMetadata(contract: string, info: any, fetchedAt = Date.now()): ContractMetadata {
+  const quantoMultiplier = num(info?.quantoMultiplier ?? info?.quanto_multiplier, 0);
+  if (!(quantoMultiplier > 0)) {
+    throw new Error(`Contract ${contract} has no quanto multiplier`);
+  }
+  return {
+    contract,
+    quantoMultiplier,
+    orderPriceRound: num(info?.orderPriceRound ?? info?.order_price_round, 0),
+    orderSizeMin: Math.max(1, num(info?.orderSizeMin ?? info?.order_size_min, 1)),
+    orderSizeMax: num(info?.orderSizeMax ?? info?.order_size_max, 0) || Number.POSITIVE_INFINITY,
+    maintenanceRate: num(info?.maintenanceRate ?? info?.maintenance_rate, 0.005),
+    leverageMin: num(info?.leverageMin ?? info?.leverage_min, 1),
+    leverageMax: num(info?.leverageMax ?? info?.leverage_max, 100),
+    makerFeeRate: num(info?.makerFeeRate ?? info?.maker_fee_rate, 0.0002),
+    takerFeeRate: num(info?.takerFeeRate ?? info?.taker_fee_rate, 0.0005),
+    fetchedAt,
+  };
+}
+
+/**
+ * 按价格最小变动单位取整（nearest 四舍五入，up / down 向上 / 向下），tick 未知时保留 8 位小数
+ */
+export function roundPrice(price: number, tick: number, mode: "nearest" | "up" | "down" = "nearest") {
+  if (!(price > 0)) return price;
+  if (!(tick > 0)) return Math.round(price * 1e8) / 1e8;
+  const ratio = price / tick;
+  const steps = mode === "up" ? Math.ceil(ratio - 1e-9) : mode === "down" ? Math.floor(ratio + 1e-9) : Math.round(ratio);
+  const decimals = Math.max(0, Math.ceil(-Math.log10(tick) - 1e-9));
+  return Number((steps * tick).toFixed(decimals));
+}
+
+export class ContractMetadataService {
+  private readonly cache = new Map<string, ContractMetadata>();
+  private readonly pending = new Map<string, Promise<ContractMetadata>>();
+
+  constructor(
+    private readonly loadContract: (contract: string) => Promise<any>,
+    private readonly ttlMs = 10 * 60 * 1000,
+  ) {}
+
+  /**
+   * 直接从 API 客户端（实盘 / 模拟盘）加载合约信息
+   */
+  static fromApi(client: GateApiClient, settle = "usdt", ttlMs?: number) {
+    return new ContractMetadataService(
+      async (contract) => (await client.futures.getFuturesContract(settle, contract)).body,
+      ttlMs,
+    );
+  }
+
+  async get(contract: string): Promise<ContractMetadata> {
+    const cached = this.cache.get(contract);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) return cached;
+
+    // 并发请求同一合约时只发一次；刷新失败时继续使用过期的缓存
+    let pending = this.pending.get(contract);
+    if (!pending) {
+      pending = this.loadContract(contract)
+        .then((info) => {
+          const metadata = parseContractMetadata(contract, info);
+          this.cache.set(contract, metadata);
+          return metadata;
+        })
+        .catch((error) => {
+          if (cached) return cached;
+          throw error;
+        })
+        .finally(() => this.pending.delete(contract));
+      this.pending.set(contract, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * 按合约价格精度取整
+   */
+  async roundPrice(contract: string, price: number, mode: "nearest" | "up" | "down" = "nearest") {
+    return roundPrice(price, (await this.get(contract)).orderPriceRound, mode);
+  }
+
+  invalidate(contract?: string) {
+    if (contract) {
+      this.cache.delete(contract);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 合约张数换算
+ *
+ * Gate 永续合约的下单数量是整数张，每张对应 quantoMultiplier 个币：
+ *   名义价值 = 张数 × quantoMultiplier × 价格
+ * 按目标名义价值向下取整到整数张（不会超出风控放行的保证金），并检查 orderSizeMin / orderSizeMax；
+ * 不足最小张数时拒绝而不是向上取整，返回实际的名义价值和保证金供 Agent 确认。
+ */
+import type { GateClient } from "./gateClient";
+import type { ContractMetadata } from "./contractMetadata";
+
+export interface ContractSizingResult {
+  contract: string;
+  price: number;
+  quantoMultiplier: number;
+  leverage: number;
+  /** 请求的名义价值（USDT） */
+  requestedNotional: number;
+  /** 整数张数（不带方向），0 表示无法下单 */
+  contracts: number;
+  /** 实际名义价值（USDT） */
+  notional: number;
+  /** 实际占用保证金（USDT） */
+  margin: number;
+  orderSizeMin: number;
+  orderSizeMax: number;
+  /** 最小张数对应的保证金（USDT） */
+  minMargin: number;
+  /** 张数被调整（超过最大张数）或无法下单的原因 */
+  note?: string;
+}
+
+/**
+ * 按合约元数据把名义价值换算为整数张
+ */
+export function sizeFromNotional(
+  metadata: ContractMetadata,
+  params: { contract: string; price: number; notional: number; leverage: number },
+): ContractSizingResult {
+  const { contract, price, notional, leverage } = params;
+  const { quantoMultiplier, orderSizeMin, orderSizeMax } = metadata;
+  if (!(price > 0)) {
+    throw new Error(`无法获取 ${contract} 的有效价格`);
+  }
+
+  const contractValue = quantoMultiplier * price;
+
+  let contracts = Math.floor(notional / contractValue + 1e-9);
+  let note: string | undefined;
+  if (contracts > orderSizeMax) {
+    note = `${contracts} 张超过单笔最大 ${orderSizeMax} 张，已调整为 ${orderSizeMax} 张`;
+    contracts = orderSizeMax;
+  }
+  if (contracts < orderSizeMin) {
+    note = `名义价值 ${notional.toFixed(2)} USDT 不足最小下单量 ${orderSizeMin} 张（${(orderSizeMin * contractValue).toFixed(2)} USDT，保证金 ${((orderSizeMin * contractValue) / leverage).toFixed(2)} USDT）`;
+    contracts = 0;
+  }
+
+  const actualNotional = contracts * contractValue;
+  return {
+    contract,
+    price,
+    quantoMultiplier,
+    leverage,
+    requestedNotional: notional,
+    contracts,
+    notional: actualNotional,
+    margin: leverage > 0 ? actualNotional / leverage : actualNotional,
+    orderSizeMin,
+    orderSizeMax,
+    minMargin: (orderSizeMin * contractValue) / leverage,
+    note,
+  };
+}
+
+/**
+ * 基于合约元数据缓存的张数换算服务
+ */
+export class ContractSizer {
+  constructor(private readonly gateClient: GateClient) {}
+
+  /**
+   * 保证金 × 杠杆换算为整数张；未传价格时使用最新成交价
+   */
+  async size(contract: string, margin: number, leverage: number, price?: number): Promise<ContractSizingResult> {
+    const [metadata, lastPrice] = await Promise.all([
+      this.gateClient.getContractMetadata(contract),
+      price && price > 0
+        ? Promise.resolve(price)
+        : this.gateClient.getFuturesTicker(contract).then((t: any) => Number.parseFloat(t.last || "0")),
+    ]);
+    return sizeFromNotional(metadata, { contract, price: lastPrice, notional: margin * leverage, leverage });
+  }
+}
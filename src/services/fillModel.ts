@@ -0,0 +1,163 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 模拟成交模型（模拟盘 / 回测）
+ *
+ * 决定吃单成交价、手续费率和成交延迟：
+ * - 手续费：配置值优先，其次使用合约信息里的 makerFeeRate / takerFeeRate
+ * - 滑点：按订单数量逐档吃 listFuturesOrderBook 的深度，取成交均价；
+ *   盘口深度不足时剩余部分按最差一档再加 overflowImpactBps 成交
+ * - 延迟：市价单提交后经过 latencyMs 才按当时的价格成交
+ */
+
+export interface FillModelConfig {
+  /** 挂单手续费率（覆盖合约信息） */
+  makerFeeRate?: number;
+  /** 吃单手续费率（覆盖合约信息） */
+  takerFeeRate?: number;
+  /** 滑点模式：orderbook 按盘口深度，fixed 按固定基点，none 按最新价成交 */
+  slippage?: "orderbook" | "fixed" | "none";
+  /** fixed 模式下的滑点（基点） */
+  fixedSlippageBps?: number;
+  /** 读取的盘口档数 */
+  orderBookDepth?: number;
+  /** 盘口深度不足时，超出部分相对最差一档的额外冲击（基点） */
+  overflowImpactBps?: number;
+  /** 市价单成交延迟（毫秒） */
+  latencyMs?: number;
+}
+
+export interface OrderBookLevel {
+  p: string;
+  s: number;
+}
+
+export interface OrderBookSnapshot {
+  asks: OrderBookLevel[];
+  bids: OrderBookLevel[];
+}
+
+export interface FillRequest {
+  contract: string;
+  /** 正数买入，负数卖出（张） */
+  size: number;
+  lastPrice: number;
+  /** 限价单价格，成交价不会比它更差 */
+  limitPrice?: number;
+  /** 按需读取盘口 */
+  getOrderBook: (depth: number) => Promise<OrderBookSnapshot>;
+}
+
+export interface FillQuote {
+  price: number;
+  /** 相对最新价的不利偏移（价格单位，始终 >= 0） */
+  slippage: number;
+}
+
+/**
+ * 可替换的成交模型
+ */
+export interface FillModel {
+  /** 市价单 / 穿价限价单的吃单成交价 */
+  quoteTakerFill(request: FillRequest): Promise<FillQuote>;
+  /** 手续费率，contractInfo 为合约信息（可能没有费率字段） */
+  getFeeRate(role: "taker" | "maker", contractInfo?: any): number;
+  /** 市价单从提交到成交的延迟（毫秒） */
+  getLatencyMs(): number;
+}
+
+/**
+ * 逐档吃盘口，返回成交均价；levels 为对手盘（买单吃 asks，卖单吃 bids），由优到劣排序
+ */
+export function walkOrderBook(levels: OrderBookLevel[], quantity: number, isBuy: boolean, overflowImpactBps = 10) {
+  let remaining = quantity;
+  let cost = 0;
+  let worstPrice = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const price = Number.parseFloat(level.p);
+    const take = Math.min(remaining, Number(level.s));
+    if (!(price > 0) || !(take > 0)) continue;
+    cost += take * price;
+    remaining -= take;
+    worstPrice = price;
+  }
+
+  if (worstPrice === 0) return null;
+
+  if (remaining > 0) {
+    cost += remaining * worstPrice * (1 + ((isBuy ? 1 : -1) * overflowImpactBps) / 10000);
+  }
+
+  return cost / quantity;
+}
+
+export class DefaultFillModel implements FillModel {
+  private readonly config: FillModelConfig;
+
+  constructor(config: FillModelConfig = {}) {
+    this.config = config;
+  }
+
+  async quoteTakerFill(request: FillRequest): Promise<FillQuote> {
+    const { size, lastPrice, limitPrice } = request;
+    const isBuy = size > 0;
+    let price = lastPrice;
+
+    switch (this.config.slippage || "orderbook") {
+      case "fixed": {
+        const bps = this.config.fixedSlippageBps ?? 5;
+        price = lastPrice * (1 + ((isBuy ? 1 : -1) * bps) / 10000);
+        break;
+      }
+      case "orderbook": {
+        try {
+          const book = await request.getOrderBook(this.config.orderBookDepth ?? 20);
+          const levels = isBuy ? book.asks : book.bids;
+          const average = walkOrderBook(levels || [], Math.abs(size), isBuy, this.config.overflowImpactBps ?? 10);
+          if (average) price = average;
+        } catch {
+          // 拿不到盘口时按最新价成交
+        }
+        break;
+      }
+      default:
+        break;
+    }
+
+    // 限价单不会以比限价更差的价格成交
+    if (limitPrice && limitPrice > 0) {
+      price = isBuy ? Math.min(price, limitPrice) : Math.max(price, limitPrice);
+    }
+
+    return { price, slippage: Math.max(0, (price - lastPrice) * (isBuy ? 1 : -1)) };
+  }
+
+  getFeeRate(role: "taker" | "maker", contractInfo?: any) {
+    if (role === "taker") {
+      return this.config.takerFeeRate ?? (Number.parseFloat(contractInfo?.takerFeeRate) || 0.0005);
+    }
+    return this.config.makerFeeRate ?? (Number.parseFloat(contractInfo?.makerFeeRate) || 0.0002);
+  }
+
+  getLatencyMs() {
+    return this.config.latencyMs ?? 0;
+  }
+}
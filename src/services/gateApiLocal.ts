@@ -4,11 +4,26 @@ import { createLogger } from "../utils/logger";
 
 const logger = createLogger("xxx", "info");
 
-export class GateApiLocal {
+/**
+ * GateApiLocal.futures 的接口形状
+ * 模拟盘交易所（PaperExchange）等替代实现需要提供同样的方法
+ */
+export type GateFuturesApi = GateApiLocal["futures"];
+
+/**
+ * 可替换的交易所客户端（真实后端或模拟盘）
+ */
+export interface GateApiClient {
+  futures: GateFuturesApi;
+}
+
+export class GateApiLocal implements GateApiClient {
   private basePath: string;
   private apiKey: string;
   private apiSecret: string;
   private defaultHeaders: any = {};
+  // 请求超时（毫秒），超时按网络错误处理（status 0）
+  private timeoutMs = 10000;
 
   constructor(apiKey: string, apiSecret: string, basePath: string) {
     this.apiKey = apiKey.trim();
@@ -52,6 +67,10 @@ export class GateApiLocal {
     this.apiSecret = secret;
   }
 
+  public setTimeout(ms: number) {
+    this.timeoutMs = ms;
+  }
+
   private async request(method: string, path: string, query: any = {}, body: any = null): Promise<{ response: any; body: any }> {
     const url = new URL(this.basePath + path);
     
@@ -109,7 +128,8 @@ export class GateApiLocal {
     const options: RequestInit = {
       method: method,
       headers: headers,
-      body: body ? bodyParam : undefined
+      body: body ? bodyParam : undefined,
+      signal: AbortSignal.timeout(this.timeoutMs)
     };
 
     try {
@@ -148,10 +168,11 @@ export class GateApiLocal {
         throw error;
       }
       // Network error or other
-      const wrappedError: any = new Error(error.message);
+      const timedOut = error.name === "TimeoutError";
+      const wrappedError: any = new Error(timedOut ? `Request timed out after ${this.timeoutMs}ms` : error.message);
       wrappedError.response = {
         status: 0,
-        statusText: "Network Error",
+        statusText: timedOut ? "Timeout" : "Network Error",
         data: null
       };
       throw wrappedError;
@@ -184,9 +205,31 @@ export class GateApiLocal {
     listFuturesOrders: (settle: string, status: string, opts: any = {}) => 
       this.request('GET', `/futures/${settle}/orders`, { status, ...opts }),
 
+    cancelFuturesOrders: (settle: string, contract: string, opts: any = {}) => 
+      this.request('DELETE', `/futures/${settle}/orders`, { contract, ...opts }),
+
+    // 价格触发单（止损 / 止盈）
+    createFuturesPriceTriggeredOrder: (settle: string, order: any) => 
+      this.request('POST', `/futures/${settle}/price_orders`, {}, order),
+
+    listPriceTriggeredOrders: (settle: string, status: string, opts: any = {}) => 
+      this.request('GET', `/futures/${settle}/price_orders`, { status, ...opts }),
+
+    getPriceTriggeredOrder: (settle: string, orderId: string) => 
+      this.request('GET', `/futures/${settle}/price_orders/${orderId}`),
+
+    cancelPriceTriggeredOrder: (settle: string, orderId: string) => 
+      this.request('DELETE', `/futures/${settle}/price_orders/${orderId}`),
+
+    cancelPriceTriggeredOrderList: (settle: string, contract: string) => 
+      this.request('DELETE', `/futures/${settle}/price_orders`, { contract }),
+
     updatePositionLeverage: (settle: string, contract: string, leverage: string) => 
       this.request('POST', `/futures/${settle}/positions/${contract}/leverage`, { leverage }),
 
+    updatePositionMargin: (settle: string, contract: string, change: string) => 
+      this.request('POST', `/futures/${settle}/positions/${contract}/margin`, { change }),
+
     listFuturesFundingRateHistory: (settle: string, contract: string, opts: any = {}) => 
       this.request('GET', `/futures/${settle}/funding_rate`, { contract, ...opts }),
 
@@ -202,6 +245,9 @@ export class GateApiLocal {
     listFuturesLiquidatedOrders: (settle: string, opts: any = {}) => 
       this.request('GET', `/futures/${settle}/liq_orders`, opts),
 
+    listPositionClose: (settle: string, opts: any = {}) => 
+      this.request('GET', `/futures/${settle}/position_close`, opts),
+
     listFuturesSettlementHistory: (settle: string, opts: any = {}) => 
       this.request('GET', `/futures/${settle}/settlements`, opts), // Assuming this endpoint
 
@@ -209,6 +255,9 @@ export class GateApiLocal {
     getQuantRunningEngines: () => 
       this.request('GET', `/quant/engines/running`),
 
+    getQuantEngines: () => 
+      this.request('GET', '/quant/engines'),
+
     getQuantEngineConfig: (id: number) => 
       this.request('GET', `/quant/engines/${id}`),
   };
@@ -21,24 +21,62 @@
  */
 // @ts-ignore - gate-api type definitions might be incomplete
 // import * as GateApi from "gate-api";
-import { GateApiLocal } from "./gateApiLocal";
+import { GateApiLocal, type GateApiClient } from "./gateApiLocal";
 import { createLogger } from "../utils/logger";
 import { RISK_PARAMS } from "../config/riskParams";
+import { ContractMetadataService, roundPrice } from "./contractMetadata";
+import { buildOrderText, isRetryableOrderError, type OrderTagContext } from "./orderTag";
 
 const logger = createLogger("gate-client", "info");
 
 export class GateClient {
-  public readonly client: GateApiLocal;
+  public readonly client: GateApiClient;
   private readonly futuresApi: any;
+  // 合约元数据缓存（面值、价格精度、张数限制、手续费率）
+  public readonly contracts: ContractMetadataService;
 
   // private readonly spotApi: any;
   private readonly settle = "usdt"; // Use USDT settlement
+  // 订单 text 标记 t-e{engineId}-c{cycle}-{seq}，未设置时不带标记、下单失败不重试
+  private orderTagContext: OrderTagContext | null = null;
+  private orderSeq = 0;
 
-  constructor(apiKey: string, apiSecret: string, baseUrl: string) {
+  /**
+   * @param client 可选的交易所实现（例如模拟盘 PaperExchange），不传则连接后端 API
+   */
+  constructor(apiKey: string, apiSecret: string, baseUrl: string, client?: GateApiClient) {
     // @ts-ignore
-    this.client = new GateApiLocal(apiKey, apiSecret, baseUrl);
+    this.client = client || new GateApiLocal(apiKey, apiSecret, baseUrl);
     // @ts-ignore
     this.futuresApi = this.client.futures;
+    this.contracts = new ContractMetadataService((contract) => this.getContractInfo(contract));
+  }
+
+  /**
+   * Get cached contract metadata (multiplier, tick size, size limits, fees)
+   */
+  async getContractMetadata(contract: string) {
+    return this.contracts.get(contract);
+  }
+
+  /**
+   * Set the engine / cycle used to tag orders; the sequence restarts when the cycle changes
+   */
+  setOrderTagContext(context: OrderTagContext) {
+    const previous = this.orderTagContext;
+    if (!previous || previous.engineId !== context.engineId || previous.cycle !== context.cycle) {
+      this.orderSeq = 0;
+    }
+    this.orderTagContext = context;
+  }
+
+  /**
+   * Next deterministic order text, undefined when no engine context is set
+   */
+  nextOrderText() {
+    if (!this.orderTagContext) return undefined;
+    this.orderSeq++;
+    return buildOrderText(this.orderTagContext.engineId, this.orderTagContext.cycle, this.orderSeq);
   }
 
   /**
@@ -184,29 +222,34 @@ export class GateClient {
     autoSize?: string;
     stopLoss?: number;
     takeProfit?: number;
+    /** 自定义 text（t- 开头），默认按引擎和周期生成 */
+    text?: string;
   }) {
     // Validate and adjust size (defined outside try to be used in catch)
     let adjustedSize = params.size;
     
     try {
-      // Get contract info to validate size
-      const contractInfo = await this.getContractInfo(params.contract);
+      // size 0 没有方向，按最小张数调整会变成反向开仓；全平请使用 reduce-only 的持仓张数
+      if (!Number.isFinite(params.size) || (params.size === 0 && params.autoSize === undefined)) {
+        throw new Error(`Invalid order size ${params.size}`);
+      }
+
+      // Get cached contract metadata to validate size and price precision
+      const metadata = await this.contracts.get(params.contract);
       
       const absSize = Math.abs(params.size);
       
       // API single order size limit (based on error message)
       const API_MAX_SIZE = 10000000;
       
-      // Check minimum size limit (using camelCase)
-      if (contractInfo.orderSizeMin && absSize < contractInfo.orderSizeMin) {
-        logger.warn(`Order size ${absSize} below minimum ${contractInfo.orderSizeMin}, adjusted to minimum`);
-        adjustedSize = params.size > 0 ? contractInfo.orderSizeMin : -contractInfo.orderSizeMin;
+      // Check minimum size limit
+      if (absSize < metadata.orderSizeMin) {
+        logger.warn(`Order size ${absSize} below minimum ${metadata.orderSizeMin}, adjusted to minimum`);
+        adjustedSize = params.size > 0 ? metadata.orderSizeMin : -metadata.orderSizeMin;
       }
       
       // Check maximum size limit (use smaller of contract limit and API limit)
-      const maxSize = contractInfo.orderSizeMax 
-        ? Math.min(contractInfo.orderSizeMax, API_MAX_SIZE)
-        : API_MAX_SIZE;
+      const maxSize = Math.min(metadata.orderSizeMax, API_MAX_SIZE);
         
       if (absSize > maxSize) {
         logger.warn(`Order size ${absSize} exceeds maximum ${maxSize}, adjusted to maximum`);
@@ -240,24 +283,12 @@ export class GateClient {
         }
       }
 
-      // Format price, ensure precision limit is not exceeded
-      // API requires price precision not to exceed 12 decimal places
+      // Format price to the contract tick size (orderPriceRound)
+      // Buy orders round down and sell orders round up, so rounding never makes the price more aggressive
       // Note: price: "0" means market order
       const formatPrice = (price: number | undefined): string => {
         if (!price || price === 0) return "0";  // Market order
-        
-        // Round to 8 decimal places first to avoid floating point precision issues
-        const roundedPrice = Math.round(price * 100000000) / 100000000;
-        
-        // Convert to string
-        let priceStr = roundedPrice.toString();
-        
-        // If contains decimal point, remove trailing zeros
-        if (priceStr.includes('.')) {
-          priceStr = priceStr.replace(/\.?0+$/, "");
-        }
-        
-        return priceStr;
+        return roundPrice(price, metadata.orderPriceRound, params.size > 0 ? "down" : "up").toString();
       };
 
       // Use FuturesOrder type structure
@@ -290,6 +321,12 @@ export class GateClient {
         order.autoSize = params.autoSize;
       }
 
+      // Deterministic client order id, used to detect duplicates before retrying
+      const text = params.text ?? this.nextOrderText();
+      if (text) {
+        order.text = text;
+      }
+
       // Stop loss and take profit parameters (if provided)
       if (params.stopLoss !== undefined && params.stopLoss > 0) {
         order.stopLoss = params.stopLoss.toString();
@@ -302,11 +339,7 @@ export class GateClient {
       }
 
       logger.info(`Placing order: ${JSON.stringify(order)}`);
-      const result = await this.futuresApi.createFuturesOrder(
-        this.settle,
-        order
-      );
-      return result.body;
+      return await this.submitOrder(order);
     } catch (error: any) {
       // Get detailed API error information
       const errorDetails = {
@@ -329,6 +362,52 @@ export class GateClient {
     }
   }
 
+  /**
+   * Submit order; on network errors / timeouts / 5xx look the order up by its text before retrying,
+   * so a request that reached the exchange is never submitted twice. Untagged orders are not retried.
+   */
+  private async submitOrder(order: any, retries = 2) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.futuresApi.createFuturesOrder(this.settle, order);
+        return result.body;
+      } catch (error: any) {
+        if (!order.text || attempt >= retries || !isRetryableOrderError(error)) {
+          throw error;
+        }
+        logger.warn(`Order ${order.text} request failed (${error.message}), checking exchange before retry ${attempt + 1}/${retries}...`);
+        await new Promise(resolve => setTimeout(resolve, 500 * (attempt + 1)));
+
+        let existing: any;
+        try {
+          existing = await this.findOrderByText(order.contract, order.text);
+        } catch (lookupError: any) {
+          // 无法确认订单是否已提交时不重试，避免重复下单
+          throw new Error(`${error.message}; order ${order.text} status unknown (lookup failed: ${lookupError.message})`);
+        }
+        if (existing) {
+          logger.warn(`Order ${order.text} already exists on exchange (ID: ${existing.id}), not resubmitting`);
+          return existing;
+        }
+      }
+    }
+  }
+
+  /**
+   * Find an order created in the current tag cycle by its text (open orders first, then recently finished)
+   */
+  async findOrderByText(contract: string, text: string) {
+    const since = this.orderTagContext ? this.orderTagContext.cycleStartedAt.getTime() / 1000 - 5 : 0;
+    for (const status of ["open", "finished"]) {
+      const result = await this.futuresApi.listFuturesOrders(this.settle, status, { contract, limit: 100 });
+      const found = (result.body || []).find(
+        (o: any) => o.text === text && Number.parseFloat(o.createTime ?? o.create_time ?? "0") >= since,
+      );
+      if (found) return found;
+    }
+    return null;
+  }
+
   /**
    * Get order details
    */
@@ -393,6 +472,24 @@ export class GateClient {
     }
   }
 
+  /**
+   * Add (positive change) or remove (negative change) isolated position margin
+   */
+  async updatePositionMargin(contract: string, change: number) {
+    try {
+      logger.info(`Updating ${contract} position margin by ${change.toFixed(4)} USDT`);
+      const result = await this.futuresApi.updatePositionMargin(
+        this.settle,
+        contract,
+        change.toFixed(4)
+      );
+      return result.body;
+    } catch (error) {
+      logger.error(`Failed to update ${contract} position margin:`, error as any);
+      throw error;
+    }
+  }
+
   /**
    * Get funding rate
    */
@@ -495,6 +592,27 @@ export class GateClient {
     }
   }
 
+  /**
+   * Get position close history (one record per closed perpetual position, newest first)
+   * @param contract Contract name (optional, leave blank to get all contracts)
+   * @param limit Number of records to return, default 100
+   * @param offset Offset, default 0, for pagination
+   */
+  async getPositionCloseHistory(contract?: string, limit = 100, offset = 0) {
+    try {
+      const options: any = { limit, offset };
+      if (contract) {
+        options.contract = contract;
+      }
+
+      const result = await this.futuresApi.listPositionClose(this.settle, options);
+      return result.body;
+    } catch (error) {
+      logger.error("Failed to get position close history:", error as any);
+      throw error;
+    }
+  }
+
   /**
    * Get historical settlement records (more detailed historical position information)
    * @param contract Contract name (optional, leave blank to get all contracts)
@@ -565,6 +683,7 @@ export class GateClient {
 
   /**
    * Place price triggered order (Stop Loss / Take Profit)
+   * close_position 时 size 为 0、触发后平掉整个仓位；否则按 orderSize 下单（可设置 reduce_only）
    */
   async placePriceTriggerOrder(
     contract: string,
@@ -572,32 +691,30 @@ export class GateClient {
     rule: "up" | "down",
     orderPrice: number = 0,
     orderSize: number = 0,
-    options: { close_position?: boolean } = {}
+    options: { close_position?: boolean; reduce_only?: boolean; price_type?: number; text?: string; expiration?: number } = {}
   ) {
     try {
       // Gate API rule: 1 for >= (up), 2 for <= (down)
       const ruleId = rule === "up" ? 1 : 2;
       
+      const tick = (await this.contracts.get(contract)).orderPriceRound;
       const triggerOrder = {
         initial: {
           contract,
-          size: 0, 
-          price: "0",
+          size: options.close_position ? 0 : orderSize,
+          price: orderPrice === 0 ? "0" : roundPrice(orderPrice, tick).toString(),
+          tif: "ioc",
+          text: options.text || "api",
+          close: Boolean(options.close_position),
+          reduce_only: Boolean(options.close_position || options.reduce_only),
         },
         trigger: {
           strategy_type: 0, // 0: price trigger
-          price_type: 0, // 0: last price, 1: mark price, 2: index price
-          price: triggerPrice.toString(),
+          price_type: options.price_type ?? 0, // 0: last price, 1: mark price, 2: index price
+          price: roundPrice(triggerPrice, tick).toString(),
           rule: ruleId,
-          expiration: 86400 * 30, // 30 days
+          expiration: options.expiration ?? 86400 * 30, // 30 days
         },
-        order: {
-          contract,
-          size: orderSize, 
-          price: orderPrice === 0 ? "0" : orderPrice.toString(),
-          tif: "ioc", 
-          is_close: options.close_position,
-        }
       };
 
       const result = await this.futuresApi.createFuturesPriceTriggeredOrder(
@@ -611,6 +728,49 @@ export class GateClient {
     }
   }
 
+  /**
+   * List price triggered orders (status: open / finished)
+   */
+  async getPriceTriggerOrders(contract?: string, status: "open" | "finished" = "open") {
+    try {
+      const result = await this.futuresApi.listPriceTriggeredOrders(
+        this.settle,
+        status,
+        contract ? { contract } : {}
+      );
+      return result.body;
+    } catch (error: any) {
+      logger.error(`Failed to list trigger orders:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a price triggered order
+   */
+  async cancelPriceTriggerOrder(orderId: string) {
+    try {
+      const result = await this.futuresApi.cancelPriceTriggeredOrder(this.settle, orderId);
+      return result.body;
+    } catch (error: any) {
+      logger.error(`Failed to cancel trigger order ${orderId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel all price triggered orders for a contract
+   */
+  async cancelAllPriceTriggerOrders(contract: string) {
+    try {
+      const result = await this.futuresApi.cancelPriceTriggeredOrderList(this.settle, contract);
+      return result.body;
+    } catch (error: any) {
+      logger.error(`Failed to cancel trigger orders for ${contract}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Cancel all futures orders for a contract
    */
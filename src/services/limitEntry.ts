@@ -0,0 +1,191 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 限价 / 只做 Maker 开仓
+ *
+ * entry.mode = "limit" 或 "post_only" 时 openPosition 不再发市价 IOC 单，而是在盘口最优价挂单：
+ *   做多挂买一价，做空挂卖一价；post_only 使用 tif = poc（会立即成交时交易所直接拒绝 / 取消）
+ * 每次挂单等待 repriceIntervalMs，未全部成交则撤单，按最新盘口重新挂剩余张数，最多重挂 maxReprices 次；
+ * 从第一次挂单起超过 timeoutMs 后撤掉剩余挂单。各次挂单的成交汇总为成交张数、均价和手续费返回给 Agent。
+ * 大账户的 taker 手续费和滑点是主要成本，maker 成交可以省掉这部分，代价是可能只成交一部分或不成交。
+ * 通过 riskParams.entry { mode, repriceIntervalMs, maxReprices, timeoutMs } 配置。
+ */
+import type { GateClient } from "./gateClient";
+import type { OrderTracker, TrackedOrder } from "./orderTracker";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("limit-entry", "info");
+
+export type EntryOrderMode = "market" | "limit" | "post_only";
+
+export interface EntryOrderConfig {
+  mode: EntryOrderMode;
+  /** 每次挂单等待成交的时间（毫秒），超过后撤单重挂 */
+  repriceIntervalMs: number;
+  /** 最多重挂次数（不含第一次挂单） */
+  maxReprices: number;
+  /** 从第一次挂单起的总超时（毫秒），超过后撤掉剩余挂单 */
+  timeoutMs: number;
+}
+
+export interface EntryAttempt {
+  orderId?: string;
+  price: number;
+  size: number;
+  filledSize: number;
+  state: TrackedOrder["state"] | "rejected";
+  finishAs?: string;
+  error?: string;
+}
+
+export interface LimitEntryResult {
+  mode: Exclude<EntryOrderMode, "market">;
+  contract: string;
+  /** 请求张数（带方向） */
+  requestedSize: number;
+  /** 已成交张数（带方向） */
+  filledSize: number;
+  /** 未成交张数（不带方向，已撤单） */
+  unfilledSize: number;
+  avgFillPrice: number;
+  fee: number;
+  attempts: EntryAttempt[];
+  /** 撤单失败、仍可能在交易所挂着的订单 */
+  unresolvedOrderIds: string[];
+}
+
+export function getEntryOrderConfig(riskParams: any = {}): EntryOrderConfig {
+  const entry = riskParams.entry || {};
+  const mode: EntryOrderMode = entry.mode === "limit" || entry.mode === "post_only" ? entry.mode : "market";
+  return {
+    mode,
+    repriceIntervalMs: entry.repriceIntervalMs ?? 15 * 1000,
+    maxReprices: Math.max(0, entry.maxReprices ?? 3),
+    timeoutMs: entry.timeoutMs ?? 60 * 1000,
+  };
+}
+
+/**
+ * 盘口最优价：买单取买一价，卖单取卖一价
+ */
+export function bestQuote(orderBook: any, isBuy: boolean) {
+  const levels = (isBuy ? orderBook?.bids : orderBook?.asks) || [];
+  const price = Number.parseFloat(levels[0]?.p ?? "0");
+  return Number.isFinite(price) ? price : 0;
+}
+
+export class LimitEntryExecutor {
+  constructor(
+    private readonly gateClient: GateClient,
+    private readonly tracker: OrderTracker,
+    private readonly config: EntryOrderConfig,
+  ) {}
+
+  getConfig() {
+    return this.config;
+  }
+
+  /**
+   * 按最优价挂单开仓，size 带方向（做多为正）
+   */
+  async execute(contract: string, size: number): Promise<LimitEntryResult> {
+    const mode = this.config.mode === "post_only" ? "post_only" : "limit";
+    const isBuy = size > 0;
+    const sign = Math.sign(size);
+    const deadline = Date.now() + this.config.timeoutMs;
+    const attempts: EntryAttempt[] = [];
+    const unresolvedOrderIds: string[] = [];
+    let filled = 0;
+    let filledValue = 0;
+    let fee = 0;
+
+    for (let attempt = 0; attempt <= this.config.maxReprices; attempt++) {
+      const remaining = Math.abs(size) - filled;
+      if (remaining <= 0 || (attempt > 0 && Date.now() >= deadline)) break;
+
+      const price = bestQuote(await this.gateClient.getOrderBook(contract, 1), isBuy);
+      if (!(price > 0)) {
+        attempts.push({ price, size: sign * remaining, filledSize: 0, state: "rejected", error: "盘口没有有效报价" });
+        break;
+      }
+
+      let placed: any;
+      try {
+        placed = await this.gateClient.placeOrder({
+          contract,
+          size: sign * remaining,
+          price,
+          tif: mode === "post_only" ? "poc" : "gtc",
+        });
+      } catch (error: any) {
+        // post-only 挂单时盘口已移动、会立即成交：按新盘口重挂
+        attempts.push({ price, size: sign * remaining, filledSize: 0, state: "rejected", error: error.message });
+        if (mode === "post_only" && /POC|post.?only|immediate/i.test(error.message)) continue;
+        if (filled > 0) break;
+        throw error;
+      }
+
+      const tracked = await this.tracker.track(placed, { purpose: "open", reason: `${mode} entry #${attempt + 1} @ ${price}` });
+      const waitMs = Math.max(0, Math.min(deadline, Date.now() + this.config.repriceIntervalMs) - Date.now());
+      let order = (await this.tracker.waitForTerminal(tracked.id, waitMs)) ?? tracked;
+
+      if (!this.tracker.isTerminal(order)) {
+        try {
+          await this.gateClient.cancelOrder(order.id);
+        } catch (error: any) {
+          // 撤单失败通常是订单刚好成交，下面重新查询确认
+          logger.warn(`Failed to cancel ${mode} entry order ${order.id}: ${error.message}`);
+        }
+        order = (await this.tracker.refresh(order.id)) ?? order;
+        if (!this.tracker.isTerminal(order)) {
+          unresolvedOrderIds.push(order.id);
+        }
+      }
+
+      const orderFilled = Math.abs(order.filledSize);
+      filled += orderFilled;
+      filledValue += orderFilled * order.avgFillPrice;
+      fee += order.fee;
+      attempts.push({
+        orderId: order.id,
+        price,
+        size: sign * remaining,
+        filledSize: order.filledSize,
+        state: order.state,
+        finishAs: order.finishAs,
+      });
+      logger.info(`${contract} ${mode} entry #${attempt + 1} @ ${price}: filled ${orderFilled}/${remaining} (${order.state})`);
+
+      // 撤单状态未知时不再重挂，避免超出请求张数
+      if (unresolvedOrderIds.length > 0) break;
+    }
+
+    return {
+      mode,
+      contract,
+      requestedSize: size,
+      filledSize: sign * filled,
+      unfilledSize: Math.abs(size) - filled,
+      avgFillPrice: filled > 0 ? filledValue / filled : 0,
+      fee,
+      attempts,
+      unresolvedOrderIds,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 订单 text 标记（client order id）
+ *
+ * 引擎提交的每笔订单带确定性的 text：t-e{engineId}-c{cycle}-{seq}（seq 在每个周期内从 1 递增）。
+ * 下单请求网络错误或超时后，GateClient 先按 text 查找交易所上是否已有该订单，找到则直接返回、不再重复提交；
+ * 同一标记也用于事后把订单归属到引擎和交易周期。
+ * Gate 要求 text 以 t- 开头，去掉前缀后不超过 28 字节，只能包含字母、数字、_、-、.
+ */
+
+const ORDER_TEXT_PATTERN = /^t-e([A-Za-z0-9_.]+)-c(\d+)-(\d+)$/;
+
+const MAX_TEXT_BYTES = 28;
+
+export interface OrderTagContext {
+  engineId: number | string;
+  /** 交易周期（AgentRunner 的 iteration），周期外的订单为 0 */
+  cycle: number;
+  /** 周期开始时间，查找订单时忽略更早创建的订单（避免引擎重启后周期号重复） */
+  cycleStartedAt: Date;
+}
+
+export function buildOrderText(engineId: number | string, cycle: number, seq: number) {
+  const text = `t-e${engineId}-c${cycle}-${seq}`;
+  if (text.length - 2 > MAX_TEXT_BYTES) {
+    throw new Error(`Order text ${text} exceeds ${MAX_TEXT_BYTES} bytes`);
+  }
+  return text;
+}
+
+/**
+ * 解析引擎订单的 text，不是本系统格式时返回 null
+ */
+export function parseOrderText(text: string | undefined | null) {
+  const match = ORDER_TEXT_PATTERN.exec(text || "");
+  if (!match) return null;
+  return { engineId: match[1], cycle: Number(match[2]), seq: Number(match[3]) };
+}
+
+/**
+ * 订单请求是否可能已经到达交易所（网络错误、超时、5xx），此时需要先按 text 查找再重试；
+ * 4xx 业务错误（保证金不足、参数错误等）说明订单已被拒绝，不重试
+ */
+export function isRetryableOrderError(error: any) {
+  const status = error?.response?.status;
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
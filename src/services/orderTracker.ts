@@ -0,0 +1,301 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 订单生命周期跟踪
+ *
+ * 引擎提交的每一笔订单（Agent 开平仓、强制平仓、强平保护减仓、紧急平仓）都登记到跟踪器，
+ * 通过 getOrder 跟踪到终态（finished），记录部分成交、成交均价和手续费：
+ * - waitForTerminal：下单后在 waitTimeoutMs 内等待成交，超时后订单留在跟踪列表中
+ * - pollOpen：每个周期刷新未完成的订单，超过 stuckAfterMs 仍未完成的订单标记为 stuck
+ * 状态变化以事件形式通知订阅方（日志、风控），并缓存给下一轮 Prompt。
+ * 通过 riskParams.orderTracker { pollIntervalMs, waitTimeoutMs, stuckAfterMs, maxHistory } 配置。
+ */
+import type { GateClient } from "./gateClient";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("order-tracker", "info");
+
+/** 下单来源 */
+export type OrderPurpose = "open" | "close" | "reduce" | "forced_close" | "liquidation_guard" | "flatten";
+
+/**
+ * open：未成交；partial：部分成交、仍在挂单；filled：全部成交；cancelled：撤销 / IOC 未成交部分取消（可能有部分成交）
+ */
+export type TrackedOrderState = "open" | "partial" | "filled" | "cancelled";
+
+export interface TrackedOrder {
+  id: string;
+  contract: string;
+  purpose: OrderPurpose;
+  reason?: string;
+  /** 订单 text 标记（t-e{engineId}-c{cycle}-{seq}，见 services/orderTag） */
+  text?: string;
+  /** 下单张数（带方向） */
+  size: number;
+  /** 已成交张数（带方向） */
+  filledSize: number;
+  /** 未成交张数（不带方向） */
+  leftSize: number;
+  /** 成交均价，未成交时为 0 */
+  avgFillPrice: number;
+  /** 手续费（USDT） */
+  fee: number;
+  state: TrackedOrderState;
+  /** 交易所返回的 finish_as（filled / ioc / cancelled / reduce_only 等） */
+  finishAs: string;
+  submittedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  /** 超过 stuckAfterMs 仍未完成 */
+  stuck: boolean;
+  /** 最近一次查询失败的原因 */
+  lastError?: string;
+}
+
+export type OrderEventType = "partial_fill" | "filled" | "cancelled" | "stuck";
+
+export interface OrderEvent {
+  type: OrderEventType;
+  order: TrackedOrder;
+  message: string;
+  time: string;
+}
+
+export type OrderEventListener = (event: OrderEvent) => void | Promise<void>;
+
+export interface OrderTrackerConfig {
+  /** waitForTerminal 的查询间隔（毫秒） */
+  pollIntervalMs: number;
+  /** 下单后等待成交的时间（毫秒），0 表示只查询一次 */
+  waitTimeoutMs: number;
+  /** 提交后超过该时间仍未完成的订单标记为 stuck（毫秒） */
+  stuckAfterMs: number;
+  /** 保留的已完成订单数 */
+  maxHistory: number;
+}
+
+export function getOrderTrackerConfig(riskParams: any = {}): OrderTrackerConfig {
+  const tracker = riskParams.orderTracker || {};
+  return {
+    pollIntervalMs: tracker.pollIntervalMs ?? 500,
+    waitTimeoutMs: tracker.waitTimeoutMs ?? 5000,
+    stuckAfterMs: tracker.stuckAfterMs ?? 60 * 1000,
+    maxHistory: tracker.maxHistory ?? 200,
+  };
+}
+
+function num(value: any) {
+  const parsed = Number.parseFloat(value ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function describe(order: TrackedOrder) {
+  const filled = `${Math.abs(order.filledSize)}/${Math.abs(order.size)}`;
+  const price = order.avgFillPrice > 0 ? ` @ ${order.avgFillPrice}` : "";
+  return `${order.purpose} #${order.id} ${order.contract} ${filled}${price}, fee ${order.fee.toFixed(4)} USDT`;
+}
+
+export class OrderTracker {
+  private readonly orders = new Map<string, TrackedOrder>();
+  private readonly listeners: OrderEventListener[] = [];
+  private pendingEvents: OrderEvent[] = [];
+
+  constructor(
+    private readonly gateClient: GateClient,
+    private readonly config: OrderTrackerConfig,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  getConfig() {
+    return this.config;
+  }
+
+  onEvent(listener: OrderEventListener) {
+    this.listeners.push(listener);
+  }
+
+  get(id: string) {
+    return this.orders.get(String(id));
+  }
+
+  getOpenOrders() {
+    return [...this.orders.values()].filter((o) => o.state === "open" || o.state === "partial");
+  }
+
+  getOrders() {
+    return [...this.orders.values()];
+  }
+
+  /**
+   * 取出上次调用以来的事件（用于 Prompt）
+   */
+  drainEvents() {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    return events;
+  }
+
+  /**
+   * 登记刚提交的订单；placed 为 placeOrder 的返回值（可能已经是终态）
+   */
+  async track(placed: any, meta: { purpose: OrderPurpose; reason?: string }): Promise<TrackedOrder> {
+    const time = this.now().toISOString();
+    const order: TrackedOrder = {
+      id: String(placed.id),
+      contract: placed.contract,
+      purpose: meta.purpose,
+      reason: meta.reason,
+      text: placed.text,
+      size: num(placed.size),
+      filledSize: 0,
+      leftSize: Math.abs(num(placed.size)),
+      avgFillPrice: 0,
+      fee: 0,
+      state: "open",
+      finishAs: "",
+      submittedAt: time,
+      updatedAt: time,
+      stuck: false,
+    };
+    this.orders.set(order.id, order);
+    await this.apply(order, placed);
+    this.prune();
+    return order;
+  }
+
+  /**
+   * 查询交易所订单并更新记录
+   */
+  async refresh(id: string): Promise<TrackedOrder | undefined> {
+    const order = this.orders.get(String(id));
+    if (!order || this.isTerminal(order)) return order;
+    try {
+      await this.apply(order, await this.gateClient.getOrder(order.id));
+      order.lastError = undefined;
+    } catch (error: any) {
+      order.lastError = error.message;
+      logger.warn(`Failed to refresh order #${order.id}: ${error.message}`);
+    }
+    return order;
+  }
+
+  /**
+   * 等待订单到达终态，超时后返回当前记录（订单继续由 pollOpen 跟踪）
+   */
+  async waitForTerminal(id: string, timeoutMs = this.config.waitTimeoutMs): Promise<TrackedOrder | undefined> {
+    const deadline = Date.now() + timeoutMs;
+    let order = await this.refresh(id);
+    while (order && !this.isTerminal(order) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, this.config.pollIntervalMs));
+      order = await this.refresh(id);
+    }
+    return order;
+  }
+
+  /**
+   * 刷新所有未完成的订单，超过 stuckAfterMs 的订单标记为 stuck
+   */
+  async pollOpen() {
+    for (const order of this.getOpenOrders()) {
+      await this.refresh(order.id);
+      if (this.isTerminal(order) || order.stuck) continue;
+      const ageMs = this.now().getTime() - new Date(order.submittedAt).getTime();
+      if (ageMs >= this.config.stuckAfterMs) {
+        order.stuck = true;
+        await this.emit("stuck", order, `${describe(order)} still ${order.state} after ${Math.round(ageMs / 1000)}s`);
+      }
+    }
+  }
+
+  isTerminal(order: TrackedOrder) {
+    return order.state === "filled" || order.state === "cancelled";
+  }
+
+  private async apply(order: TrackedOrder, raw: any) {
+    if (!raw) return;
+    const size = num(raw.size) || order.size;
+    const leftSize = Math.abs(num(raw.left ?? Math.abs(size)));
+    const filled = Math.max(0, Math.abs(size) - leftSize);
+    const previousFilled = Math.abs(order.filledSize);
+    const finished = raw.status === "finished";
+
+    order.size = size;
+    order.leftSize = leftSize;
+    order.filledSize = Math.sign(size) * filled;
+    order.finishAs = raw.finishAs ?? raw.finish_as ?? order.finishAs;
+    order.updatedAt = this.now().toISOString();
+    if (filled > 0) {
+      order.avgFillPrice = num(raw.fillPrice ?? raw.fill_price) || order.avgFillPrice;
+      order.fee = await this.fillFee(order, raw);
+    }
+
+    if (finished) {
+      order.state = leftSize === 0 && filled > 0 ? "filled" : "cancelled";
+      order.finishedAt = raw.finishTime ? new Date(num(raw.finishTime) * 1000).toISOString() : order.updatedAt;
+      const detail = order.state === "cancelled" ? ` (${order.finishAs || "cancelled"})` : "";
+      await this.emit(order.state, order, `${describe(order)}${detail}`);
+    } else if (filled > 0) {
+      order.state = "partial";
+      if (filled > previousFilled) {
+        await this.emit("partial_fill", order, describe(order));
+      }
+    }
+  }
+
+  /**
+   * 交易所返回 fee 时直接使用，否则按 成交张数 × 合约面值 × 成交均价 × taker 费率 估算
+   */
+  private async fillFee(order: TrackedOrder, raw: any) {
+    if (raw.fee !== undefined && raw.fee !== null && raw.fee !== "") {
+      return Math.abs(num(raw.fee));
+    }
+    try {
+      const metadata = await this.gateClient.getContractMetadata(order.contract);
+      const feeRate = raw.tkfr !== undefined ? num(raw.tkfr) : metadata.takerFeeRate;
+      return Math.abs(order.filledSize) * metadata.quantoMultiplier * order.avgFillPrice * feeRate;
+    } catch {
+      return order.fee;
+    }
+  }
+
+  private async emit(type: OrderEventType, order: TrackedOrder, message: string) {
+    const event: OrderEvent = { type, order: { ...order }, message, time: this.now().toISOString() };
+    this.pendingEvents.push(event);
+    if (this.pendingEvents.length > this.config.maxHistory) {
+      this.pendingEvents.splice(0, this.pendingEvents.length - this.config.maxHistory);
+    }
+    for (const listener of this.listeners) {
+      try {
+        await listener(event);
+      } catch (error: any) {
+        logger.error(`Order event listener failed: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 只保留最近 maxHistory 笔已完成的订单
+   */
+  private prune() {
+    const finished = [...this.orders.values()].filter((o) => this.isTerminal(o));
+    for (const order of finished.slice(0, Math.max(0, finished.length - this.config.maxHistory))) {
+      this.orders.delete(order.id);
+    }
+  }
+}
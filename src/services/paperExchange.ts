@@ -0,0 +1,1138 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 模拟盘交易所（Paper Trading）
+ *
+ * 实现 GateApiLocal.futures 的全部方法，余额、持仓、保证金和成交全部保存在内存中。
+ * 行情（ticker / K线 / 资金费率 / 合约信息 / 订单簿）来自可替换的行情源：
+ * 实盘模拟时使用 Gate 公共行情接口，回测时使用历史回放。
+ *
+ * 每次同步时对持仓结算资金费（按资金费率历史，在每个资金费时间点收取/支付），
+ * 并在标记价格穿过强平价时按逐仓模式强平（损失全部仓位保证金）。
+ * 价格触发单（止损 / 止盈）在同步时检查，触发后按 initial 下单（市价单按触发时的价格成交）。
+ */
+import { GateApiLocal, type GateApiClient, type GateFuturesApi } from "./gateApiLocal";
+import { createLogger } from "../utils/logger";
+import { DefaultFillModel, type FillModel, type FillModelConfig } from "./fillModel";
+
+const logger = createLogger("paper-exchange", "info");
+
+/**
+ * 模拟盘所需的行情接口（GateApiLocal.futures 的只读子集）
+ */
+export type PaperMarketSource = Pick<
+  GateFuturesApi,
+  | "listFuturesTickers"
+  | "listFuturesCandlesticks"
+  | "listFuturesFundingRateHistory"
+  | "getFuturesContract"
+  | "listFuturesOrderBook"
+> & {
+  /**
+   * 可选：(fromMs, toMs] 区间内的最高/最低价，用于检查两次同步之间的插针强平（回放行情提供）
+   */
+  getPriceRange?: (contract: string, fromMs: number, toMs: number) => { high: number; low: number } | null;
+};
+
+export interface PaperExchangeOptions {
+  /** 行情来源 */
+  market: PaperMarketSource;
+  /** 初始资金（USDT），默认 10000 */
+  initialBalance?: number;
+  /** 时钟（毫秒时间戳），回测时由回放器驱动 */
+  now?: () => number;
+  /** 未设置杠杆时的默认杠杆 */
+  defaultLeverage?: number;
+  /** 吃单手续费率，默认使用合约费率（缺省 0.05%） */
+  takerFeeRate?: number;
+  /** 挂单手续费率，默认使用合约费率（缺省 0.02%） */
+  makerFeeRate?: number;
+  /** 成交模型（滑点 / 延迟），可传入配置或自定义实现 */
+  fillModel?: FillModel | FillModelConfig;
+}
+
+interface PaperPosition {
+  contract: string;
+  size: number;
+  leverage: number;
+  entryPrice: number;
+  margin: number;
+  realisedPnl: number;
+  openTime: number; // 秒
+  maxSize: number;
+  /** 下一个资金费结算时间（秒） */
+  nextFundingTime: number;
+  /** 上一次强平检查时间（毫秒） */
+  lastRiskCheck: number;
+}
+
+interface PaperOrder {
+  id: number;
+  contract: string;
+  size: number;
+  left: number;
+  price: string;
+  fillPrice: string;
+  tif: string;
+  isReduceOnly: boolean;
+  isClose: boolean;
+  text: string;
+  status: "open" | "finished";
+  finishAs: string;
+  createTime: number; // 秒
+  finishTime?: number;
+  fee: number;
+  tkfr: string;
+  mkfr: string;
+  reservedMargin: number;
+  /** 延迟成交的市价单 / 穿价限价单：到达该时间（毫秒）后按当时价格成交 */
+  fillAt?: number;
+}
+
+interface PaperPriceOrder {
+  id: number;
+  initial: {
+    contract: string;
+    size: number;
+    price: string;
+    tif: string;
+    text: string;
+    reduceOnly: boolean;
+    close: boolean;
+  };
+  trigger: {
+    strategyType: number;
+    /** 0: 最新价，1: 标记价格 */
+    priceType: number;
+    price: string;
+    /** 1: 价格 >= 触发价，2: 价格 <= 触发价 */
+    rule: number;
+    /** 有效期（秒），0 表示不过期 */
+    expiration: number;
+  };
+  status: "open" | "finished";
+  finishAs: "" | "succeeded" | "failed" | "cancelled" | "expired";
+  reason: string;
+  createTime: number; // 秒
+  finishTime?: number;
+  /** 触发后生成的订单 ID */
+  tradeId: number;
+  /** 上一次触发检查时间（毫秒） */
+  lastCheck: number;
+}
+
+interface PaperTrade {
+  id: number;
+  orderId: string;
+  contract: string;
+  size: number;
+  price: string;
+  role: "taker" | "maker";
+  fee: string;
+  text: string;
+  createTime: number; // 秒
+}
+
+export interface PaperFundingPayment {
+  time: number; // 秒
+  contract: string;
+  size: number;
+  rate: number;
+  markPrice: number;
+  /** 正数为收到，负数为支付（USDT） */
+  payment: number;
+}
+
+interface PaperLiquidation {
+  time: number; // 秒
+  contract: string;
+  size: number;
+  leverage: string;
+  margin: string;
+  entryPrice: string;
+  liqPrice: string;
+  markPrice: string;
+  orderId: number;
+  orderPrice: string;
+  fillPrice: string;
+  left: number;
+}
+
+interface PaperPositionClose {
+  time: number; // 秒
+  contract: string;
+  side: "long" | "short";
+  pnl: string;
+  text: string;
+  maxSize: number;
+  firstOpenTime: number;
+  longPrice: string;
+  shortPrice: string;
+}
+
+/**
+ * 默认行情源：Gate 公共行情接口（无需 API Key）
+ */
+export function createPublicMarketSource(): PaperMarketSource {
+  const baseUrl = process.env.PAPER_MARKET_API_URL || "https://api.gateio.ws/api/v4";
+  return new GateApiLocal("", "", baseUrl).futures;
+}
+
+/**
+ * 构造与 GateApiLocal 一致的错误对象（GateClient 依赖 error.response.body.label）
+ */
+function apiError(status: number, label: string, message: string) {
+  const error: any = new Error(`Request failed with status ${status}`);
+  error.response = {
+    status,
+    statusText: label,
+    data: { label, message },
+    body: { label, message },
+  };
+  return error;
+}
+
+function ok(body: any) {
+  return {
+    response: { status: 200, statusText: "OK", data: body },
+    body,
+  };
+}
+
+// 资金费结算间隔（秒），Gate 合约信息中的 fundingInterval，默认 8 小时
+function fundingIntervalOf(contractInfo: any) {
+  return Number(contractInfo?.fundingInterval) || 28800;
+}
+
+// 避免浮点累积误差（支持小数张数）
+function roundSize(size: number) {
+  return Math.round(size * 1e8) / 1e8;
+}
+
+export class PaperExchange implements GateApiClient {
+  private readonly market: PaperMarketSource;
+  private readonly now: () => number;
+  private readonly defaultLeverage: number;
+  private readonly fillModel: FillModel;
+
+  private balance: number;
+  private readonly initialBalance: number;
+  private positions: Map<string, PaperPosition> = new Map();
+  private leverages: Map<string, number> = new Map();
+  private orders: PaperOrder[] = [];
+  private priceOrders: PaperPriceOrder[] = [];
+  private trades: PaperTrade[] = [];
+  private positionCloses: PaperPositionClose[] = [];
+  private fundingPayments: PaperFundingPayment[] = [];
+  private liquidations: PaperLiquidation[] = [];
+  private contracts: Map<string, any> = new Map();
+  private nextId = 1;
+
+  constructor(options: PaperExchangeOptions) {
+    this.market = options.market;
+    this.now = options.now || (() => Date.now());
+    this.initialBalance = options.initialBalance ?? 10000;
+    this.balance = this.initialBalance;
+    this.defaultLeverage = options.defaultLeverage ?? 10;
+    this.fillModel =
+      options.fillModel && "quoteTakerFill" in options.fillModel
+        ? options.fillModel
+        : new DefaultFillModel({
+            takerFeeRate: options.takerFeeRate,
+            makerFeeRate: options.makerFeeRate,
+            ...(options.fillModel || {}),
+          });
+
+    logger.info(`Paper exchange created with ${this.initialBalance} USDT`);
+  }
+
+  private nowSeconds() {
+    return Math.floor(this.now() / 1000);
+  }
+
+  /**
+   * 获取合约信息（缓存，合约参数在一次运行中不变）
+   */
+  private async getContract(settle: string, contract: string) {
+    const cached = this.contracts.get(contract);
+    if (cached) return cached;
+
+    const { body } = await this.market.getFuturesContract(settle, contract);
+    this.contracts.set(contract, body);
+    return body;
+  }
+
+  private async getMultiplier(settle: string, contract: string) {
+    const info = await this.getContract(settle, contract);
+    const multiplier = Number.parseFloat(info?.quantoMultiplier || "0");
+    if (!(multiplier > 0)) {
+      throw apiError(400, "CONTRACT_NOT_FOUND", `Contract ${contract} has no quanto multiplier`);
+    }
+    return multiplier;
+  }
+
+  private async getPrices(settle: string, contract: string) {
+    const { body } = await this.market.listFuturesTickers(settle, { contract });
+    const ticker = Array.isArray(body) ? body[0] : body;
+    const last = Number.parseFloat(ticker?.last || "0");
+    const mark = Number.parseFloat(ticker?.markPrice || ticker?.last || "0");
+    if (!(last > 0)) {
+      throw apiError(400, "CONTRACT_NOT_FOUND", `No price available for ${contract}`);
+    }
+    return { last, mark: mark > 0 ? mark : last };
+  }
+
+  private getLeverage(contract: string) {
+    return this.positions.get(contract)?.leverage || this.leverages.get(contract) || this.defaultLeverage;
+  }
+
+  /**
+   * 撮合挂单：每次调用接口前执行，把到期的延迟成交订单和价格已经穿越的限价单成交
+   */
+  private async sync(settle: string) {
+    for (const order of this.orders) {
+      if (order.status !== "open") continue;
+
+      try {
+        if (order.fillAt !== undefined) {
+          if (this.now() >= order.fillAt) {
+            await this.fillDelayedOrder(settle, order);
+          }
+          continue;
+        }
+
+        const { last } = await this.getPrices(settle, order.contract);
+        const limit = Number.parseFloat(order.price);
+        const crossed = order.left > 0 ? last <= limit : last >= limit;
+        if (!crossed) continue;
+
+        this.releaseOrderMargin(order);
+        // 挂单期间持仓可能已被触发单、强制平仓或强平平掉
+        if (!this.clampReduceOnly(order)) continue;
+        await this.fillOrder(settle, order, limit, "maker");
+      } catch (error: any) {
+        logger.warn(`Failed to match paper order ${order.id}: ${error.message}`);
+      }
+    }
+
+    for (const priceOrder of this.priceOrders) {
+      if (priceOrder.status !== "open") continue;
+      try {
+        await this.checkPriceOrder(settle, priceOrder);
+      } catch (error: any) {
+        logger.warn(`Failed to check paper price order ${priceOrder.id}: ${error.message}`);
+      }
+    }
+
+    for (const pos of [...this.positions.values()]) {
+      try {
+        await this.accrueFunding(settle, pos);
+        await this.checkLiquidation(settle, pos);
+      } catch (error: any) {
+        logger.warn(`Failed to settle paper position ${pos.contract}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 价格触发单：触发价在两次检查之间被穿过（回放行情提供区间高低价）时按 initial 下单
+   */
+  private async checkPriceOrder(settle: string, priceOrder: PaperPriceOrder) {
+    const now = this.now();
+    const { trigger, initial } = priceOrder;
+    if (trigger.expiration > 0 && now >= (priceOrder.createTime + trigger.expiration) * 1000) {
+      priceOrder.status = "finished";
+      priceOrder.finishAs = "expired";
+      priceOrder.finishTime = this.nowSeconds();
+      return;
+    }
+
+    const { last, mark } = await this.getPrices(settle, initial.contract);
+    const current = trigger.priceType === 1 ? mark : last;
+    const range = this.market.getPriceRange?.(initial.contract, priceOrder.lastCheck, now);
+    priceOrder.lastCheck = now;
+
+    const triggerPrice = Number.parseFloat(trigger.price);
+    const hit = trigger.rule === 1
+      ? Math.max(current, range?.high ?? current) >= triggerPrice
+      : Math.min(current, range?.low ?? current) <= triggerPrice;
+    if (!hit) return;
+
+    priceOrder.status = "finished";
+    priceOrder.finishTime = this.nowSeconds();
+    try {
+      const order = await this.submitOrder(settle, {
+        contract: initial.contract,
+        size: initial.size,
+        price: initial.price,
+        tif: initial.tif,
+        text: initial.text,
+        reduceOnly: initial.reduceOnly,
+        close: initial.close,
+      });
+      priceOrder.tradeId = order.id;
+      priceOrder.finishAs = "succeeded";
+      logger.info(`Paper price order #${priceOrder.id} ${initial.contract} triggered at ${current} (trigger ${trigger.price}) -> order #${order.id}`);
+    } catch (error: any) {
+      priceOrder.finishAs = "failed";
+      priceOrder.reason = error.response?.body?.message || error.message;
+      logger.warn(`Paper price order #${priceOrder.id} ${initial.contract} failed: ${priceOrder.reason}`);
+    }
+  }
+
+  private findPriceOrder(orderId: string) {
+    const order = this.priceOrders.find((o) => o.id.toString() === orderId.toString());
+    if (!order) {
+      throw apiError(404, "ORDER_NOT_FOUND", `Price order ${orderId} not found`);
+    }
+    return order;
+  }
+
+  private formatPriceOrder(order: PaperPriceOrder) {
+    const { lastCheck: _lastCheck, ...rest } = order;
+    return rest;
+  }
+
+  private cancelPriceOrder(order: PaperPriceOrder) {
+    order.status = "finished";
+    order.finishAs = "cancelled";
+    order.finishTime = this.nowSeconds();
+  }
+
+  /**
+   * 资金费率记录（按结算时间匹配），记录尚未公布时返回 null
+   */
+  private async getFundingRateAt(settle: string, contract: string, fundingTime: number) {
+    const { body } = await this.market.listFuturesFundingRateHistory(settle, contract, { limit: 10 });
+    const record = (body || []).find((r: any) => Math.abs(Number(r.t) - fundingTime) < 60);
+    return record ? Number.parseFloat(record.r || "0") : null;
+  }
+
+  /**
+   * 结算资金费：多头在费率为正时支付、为负时收取，空头相反；从逐仓保证金中扣除
+   */
+  private async accrueFunding(settle: string, pos: PaperPosition) {
+    const info = await this.getContract(settle, pos.contract);
+    const interval = fundingIntervalOf(info);
+    const nowSeconds = this.nowSeconds();
+
+    while (pos.nextFundingTime <= nowSeconds) {
+      const fundingTime = pos.nextFundingTime;
+      const rate = await this.getFundingRateAt(settle, pos.contract, fundingTime);
+
+      if (rate === null && nowSeconds - fundingTime < interval) {
+        // 记录可能尚未公布，下次同步再试；超过一个周期仍没有则跳过
+        break;
+      }
+
+      if (rate) {
+        const multiplier = await this.getMultiplier(settle, pos.contract);
+        const { mark } = await this.getPrices(settle, pos.contract);
+        const payment = -Math.sign(pos.size) * Math.abs(pos.size) * mark * multiplier * rate;
+
+        this.balance += payment;
+        pos.margin += payment;
+        pos.realisedPnl += payment;
+        this.fundingPayments.push({
+          time: fundingTime,
+          contract: pos.contract,
+          size: pos.size,
+          rate,
+          markPrice: mark,
+          payment,
+        });
+        logger.info(`Paper funding ${pos.contract} rate=${rate} payment=${payment.toFixed(4)} USDT`);
+      }
+
+      pos.nextFundingTime += interval;
+    }
+  }
+
+  /**
+   * 强平价（逐仓）：保证金亏损到只剩维持保证金时的价格
+   */
+  private liquidationPrice(pos: PaperPosition, multiplier: number, maintenanceRate: number) {
+    const quantity = Math.abs(pos.size) * multiplier;
+    const direction = Math.sign(pos.size);
+    const price = pos.entryPrice - (direction * (pos.margin - maintenanceRate * pos.entryPrice * quantity)) / quantity;
+    return Math.max(0, price);
+  }
+
+  /**
+   * 标记价格（或两次检查之间的极值）穿过强平价时强平
+   */
+  private async checkLiquidation(settle: string, pos: PaperPosition) {
+    const info = await this.getContract(settle, pos.contract);
+    const multiplier = await this.getMultiplier(settle, pos.contract);
+    const maintenanceRate = Number.parseFloat(info?.maintenanceRate || "0.005");
+    const liqPrice = this.liquidationPrice(pos, multiplier, maintenanceRate);
+    const { mark } = await this.getPrices(settle, pos.contract);
+
+    const now = this.now();
+    const range = this.market.getPriceRange?.(pos.contract, pos.lastRiskCheck, now);
+    pos.lastRiskCheck = now;
+
+    const worst = pos.size > 0 ? Math.min(mark, range?.low ?? mark) : Math.max(mark, range?.high ?? mark);
+    const liquidated = pos.size > 0 ? worst <= liqPrice : worst >= liqPrice;
+    if (liquidated) {
+      this.liquidate(pos, liqPrice, mark);
+    }
+  }
+
+  /**
+   * 强平：损失全部仓位保证金，撤销该合约的挂单
+   */
+  private liquidate(pos: PaperPosition, liqPrice: number, markPrice: number) {
+    const time = this.nowSeconds();
+    const orderId = this.nextId++;
+
+    for (const order of this.orders) {
+      if (order.status === "open" && order.contract === pos.contract) {
+        this.releaseOrderMargin(order);
+        order.fillAt = undefined;
+        order.status = "finished";
+        order.finishAs = "cancelled";
+        order.finishTime = time;
+      }
+    }
+
+    const loss = Math.max(0, pos.margin);
+    this.balance -= loss;
+    pos.realisedPnl -= loss;
+
+    this.liquidations.push({
+      time,
+      contract: pos.contract,
+      size: pos.size,
+      leverage: pos.leverage.toString(),
+      margin: loss.toString(),
+      entryPrice: pos.entryPrice.toString(),
+      liqPrice: liqPrice.toString(),
+      markPrice: markPrice.toString(),
+      orderId,
+      orderPrice: liqPrice.toString(),
+      fillPrice: liqPrice.toString(),
+      left: 0,
+    });
+    this.trades.push({
+      id: this.nextId++,
+      orderId: orderId.toString(),
+      contract: pos.contract,
+      size: -pos.size,
+      price: liqPrice.toString(),
+      role: "taker",
+      fee: "0",
+      text: "liquidation",
+      createTime: time,
+    });
+    this.positionCloses.push({
+      time,
+      contract: pos.contract,
+      side: pos.size > 0 ? "long" : "short",
+      pnl: pos.realisedPnl.toString(),
+      text: "liquidation",
+      maxSize: pos.maxSize,
+      firstOpenTime: pos.openTime,
+      longPrice: (pos.size > 0 ? pos.entryPrice : liqPrice).toString(),
+      shortPrice: (pos.size > 0 ? liqPrice : pos.entryPrice).toString(),
+    });
+    this.positions.delete(pos.contract);
+
+    logger.warn(
+      `Paper position ${pos.contract} liquidated: size=${pos.size} entry=${pos.entryPrice} liq=${liqPrice.toFixed(4)} mark=${markPrice}, margin lost ${loss.toFixed(2)} USDT`,
+    );
+  }
+
+  /**
+   * 资金费结算记录（回测报告使用）
+   */
+  public getFundingPayments() {
+    return [...this.fundingPayments];
+  }
+
+  private releaseOrderMargin(order: PaperOrder) {
+    order.reservedMargin = 0;
+  }
+
+  /**
+   * 只减仓单成交前按当前持仓裁剪：没有反向持仓时以 reduce_only 结束并返回 false，超过持仓的部分截断
+   */
+  private clampReduceOnly(order: PaperOrder) {
+    if (!order.isReduceOnly) return true;
+    const position = this.positions.get(order.contract);
+    if (!position || position.size === 0 || Math.sign(position.size) === Math.sign(order.left)) {
+      order.status = "finished";
+      order.finishAs = "reduce_only";
+      order.finishTime = this.nowSeconds();
+      return false;
+    }
+    if (Math.abs(order.left) > Math.abs(position.size)) {
+      order.left = -position.size;
+    }
+    return true;
+  }
+
+  /**
+   * 延迟到期的吃单：按当前价格和盘口成交；只减仓单按当时持仓重新裁剪
+   */
+  private async fillDelayedOrder(settle: string, order: PaperOrder) {
+    this.releaseOrderMargin(order);
+    order.fillAt = undefined;
+    if (!this.clampReduceOnly(order)) return;
+
+    const limit = Number.parseFloat(order.price);
+    const price = await this.quoteTakerPrice(settle, order.contract, order.left, limit > 0 ? limit : undefined);
+    await this.fillOrder(settle, order, price, "taker");
+  }
+
+  /**
+   * 按成交模型计算吃单成交价（含滑点）
+   */
+  private async quoteTakerPrice(settle: string, contract: string, size: number, limitPrice?: number) {
+    const { last } = await this.getPrices(settle, contract);
+    const quote = await this.fillModel.quoteTakerFill({
+      contract,
+      size,
+      lastPrice: last,
+      limitPrice,
+      getOrderBook: async (depth) => {
+        const { body } = await this.market.listFuturesOrderBook(settle, contract, { limit: depth });
+        return body;
+      },
+    });
+    return quote.price;
+  }
+
+  /**
+   * 计算账户状态（按标记价格计算未实现盈亏）
+   */
+  private async computeAccount(settle: string) {
+    let unrealisedPnl = 0;
+    let positionMargin = 0;
+
+    for (const pos of this.positions.values()) {
+      const multiplier = await this.getMultiplier(settle, pos.contract);
+      const { mark } = await this.getPrices(settle, pos.contract);
+      unrealisedPnl += (mark - pos.entryPrice) * pos.size * multiplier;
+      positionMargin += pos.margin;
+    }
+
+    const orderMargin = this.orders
+      .filter((o) => o.status === "open")
+      .reduce((sum, o) => sum + o.reservedMargin, 0);
+
+    const available = Math.max(0, this.balance - positionMargin - orderMargin + Math.min(unrealisedPnl, 0));
+
+    return {
+      total: this.balance + unrealisedPnl,
+      available,
+      positionMargin,
+      orderMargin,
+      unrealisedPnl,
+    };
+  }
+
+  /**
+   * 应用一笔成交，更新持仓、余额和已实现盈亏
+   */
+  private async applyFill(settle: string, contract: string, sizeDelta: number, price: number, feeRate: number) {
+    const multiplier = await this.getMultiplier(settle, contract);
+    const leverage = this.getLeverage(contract);
+    const fee = Math.abs(sizeDelta) * price * multiplier * feeRate;
+    let pos = this.positions.get(contract);
+    let remaining = sizeDelta;
+
+    this.balance -= fee;
+
+    // 1. 反向成交：先减仓并结算盈亏（平仓部分的手续费计入该持仓）
+    if (pos && Math.sign(pos.size) !== Math.sign(sizeDelta)) {
+      const direction = Math.sign(pos.size);
+      const closeQty = Math.min(Math.abs(sizeDelta), Math.abs(pos.size));
+      const pnl = (price - pos.entryPrice) * closeQty * multiplier * direction;
+
+      pos.margin -= (pos.margin * closeQty) / Math.abs(pos.size);
+      pos.size = roundSize(pos.size - direction * closeQty);
+      pos.realisedPnl += pnl - (fee * closeQty) / Math.abs(sizeDelta);
+      this.balance += pnl;
+      remaining = roundSize(sizeDelta + direction * closeQty);
+
+      if (pos.size === 0) {
+        this.positionCloses.push({
+          time: this.nowSeconds(),
+          contract,
+          side: direction > 0 ? "long" : "short",
+          pnl: pos.realisedPnl.toString(),
+          text: "",
+          maxSize: pos.maxSize,
+          firstOpenTime: pos.openTime,
+          longPrice: (direction > 0 ? pos.entryPrice : price).toString(),
+          shortPrice: (direction > 0 ? price : pos.entryPrice).toString(),
+        });
+        this.positions.delete(contract);
+        pos = undefined;
+      }
+    }
+
+    // 2. 同向成交：开仓或加仓
+    if (remaining !== 0) {
+      if (!pos) {
+        const interval = fundingIntervalOf(await this.getContract(settle, contract));
+        pos = {
+          contract,
+          size: 0,
+          leverage,
+          entryPrice: price,
+          margin: 0,
+          realisedPnl: 0,
+          openTime: this.nowSeconds(),
+          maxSize: 0,
+          nextFundingTime: (Math.floor(this.nowSeconds() / interval) + 1) * interval,
+          lastRiskCheck: this.now(),
+        };
+        this.positions.set(contract, pos);
+      }
+
+      const newSize = roundSize(pos.size + remaining);
+      pos.entryPrice = (Math.abs(pos.size) * pos.entryPrice + Math.abs(remaining) * price) / Math.abs(newSize);
+      pos.margin += (Math.abs(remaining) * price * multiplier) / pos.leverage;
+      pos.size = newSize;
+      pos.maxSize = Math.max(pos.maxSize, Math.abs(newSize));
+      pos.realisedPnl -= (fee * Math.abs(remaining)) / Math.abs(sizeDelta);
+    }
+
+    return fee;
+  }
+
+  private async fillOrder(settle: string, order: PaperOrder, price: number, role: "taker" | "maker") {
+    const feeRate = this.fillModel.getFeeRate(role, await this.getContract(settle, order.contract));
+    const fee = await this.applyFill(settle, order.contract, order.left, price, feeRate);
+
+    this.trades.push({
+      id: this.nextId++,
+      orderId: order.id.toString(),
+      contract: order.contract,
+      size: order.left,
+      price: price.toString(),
+      role,
+      fee: fee.toString(),
+      text: order.text,
+      createTime: this.nowSeconds(),
+    });
+
+    order.fee += fee;
+    order.fillPrice = price.toString();
+    order.left = 0;
+    order.status = "finished";
+    order.finishAs = "filled";
+    order.finishTime = this.nowSeconds();
+  }
+
+  /**
+   * 下单：支持市价单（price = "0"）、限价单、只减仓和 size=0 + close 的全平
+   */
+  private async createOrder(settle: string, input: any) {
+    await this.sync(settle);
+    return this.submitOrder(settle, input);
+  }
+
+  private async submitOrder(settle: string, input: any) {
+    const contract: string = input.contract;
+    const price = Number.parseFloat(input.price || "0");
+    const reduceOnly = Boolean(input.isReduceOnly ?? input.is_reduce_only ?? input.reduceOnly ?? input.reduce_only);
+    const isClose = Boolean(input.isClose ?? input.is_close ?? input.close);
+    const position = this.positions.get(contract);
+    let size = Number.parseFloat(input.size || "0");
+
+    // size=0 + close 表示全部平仓
+    if (size === 0 && isClose) {
+      if (!position) {
+        throw apiError(400, "POSITION_EMPTY", `No position to close for ${contract}`);
+      }
+      size = -position.size;
+    }
+
+    if (!Number.isFinite(size) || size === 0) {
+      throw apiError(400, "INVALID_PARAM_VALUE", "Order size must not be zero");
+    }
+
+    // 只减仓：不允许开仓或反向开仓
+    if (reduceOnly) {
+      if (!position || Math.sign(position.size) === Math.sign(size)) {
+        throw apiError(400, "REDUCE_ONLY_FAIL", `Reduce-only order would increase position for ${contract}`);
+      }
+      if (Math.abs(size) > Math.abs(position.size)) {
+        size = -position.size;
+      }
+    }
+
+    const { last } = await this.getPrices(settle, contract);
+    const isMarket = price === 0;
+    const tif = isMarket ? "ioc" : (input.tif || "gtc");
+    const crosses = isMarket || (size > 0 ? price >= last : price <= last);
+    const latencyMs = this.fillModel.getLatencyMs();
+
+    const order: PaperOrder = {
+      id: this.nextId++,
+      contract,
+      size,
+      left: size,
+      price: isMarket ? "0" : price.toString(),
+      fillPrice: "0",
+      tif,
+      isReduceOnly: reduceOnly,
+      isClose,
+      text: input.text || "api",
+      status: "open",
+      finishAs: "",
+      createTime: this.nowSeconds(),
+      fee: 0,
+      tkfr: this.fillModel.getFeeRate("taker", await this.getContract(settle, contract)).toString(),
+      mkfr: this.fillModel.getFeeRate("maker", await this.getContract(settle, contract)).toString(),
+      reservedMargin: 0,
+    };
+
+    if (tif === "poc" && crosses) {
+      throw apiError(400, "ORDER_POC_IMMEDIATE", "Post-only order would be filled immediately");
+    }
+
+    // 保证金检查（只针对开仓部分）
+    const multiplier = await this.getMultiplier(settle, contract);
+    const opening = position && Math.sign(position.size) !== Math.sign(size)
+      ? Math.max(0, Math.abs(size) - Math.abs(position.size))
+      : Math.abs(size);
+    if (opening > 0) {
+      const execPrice = crosses ? last : price;
+      const requiredMargin = (opening * execPrice * multiplier) / this.getLeverage(contract);
+      const fee = Math.abs(size) * execPrice * multiplier * Number.parseFloat(order.tkfr);
+      const account = await this.computeAccount(settle);
+      if (requiredMargin + fee > account.available) {
+        throw apiError(
+          400,
+          "INSUFFICIENT_AVAILABLE",
+          `Required margin ${(requiredMargin + fee).toFixed(2)} exceeds available ${account.available.toFixed(2)}`,
+        );
+      }
+      if (!crosses || latencyMs > 0) {
+        order.reservedMargin = requiredMargin;
+      }
+    }
+
+    this.orders.push(order);
+
+    if (crosses && latencyMs > 0) {
+      // 成交延迟：订单保持 open，到期后在 sync 中按届时价格成交
+      order.fillAt = this.now() + latencyMs;
+    } else if (crosses) {
+      const fillPrice = await this.quoteTakerPrice(settle, contract, size, isMarket ? undefined : price);
+      await this.fillOrder(settle, order, fillPrice, "taker");
+    } else if (tif === "ioc" || tif === "fok") {
+      order.status = "finished";
+      order.finishAs = tif === "ioc" ? "ioc" : "cancelled";
+      order.finishTime = this.nowSeconds();
+      order.reservedMargin = 0;
+    }
+
+    logger.info(`Paper order #${order.id} ${contract} size=${size} price=${order.price} -> ${order.status}/${order.finishAs || "open"}`);
+    return this.formatOrder(order);
+  }
+
+  private formatOrder(order: PaperOrder) {
+    const { reservedMargin: _reservedMargin, fillAt: _fillAt, ...rest } = order;
+    return rest;
+  }
+
+  private findOrder(orderId: string) {
+    const order = this.orders.find((o) => o.id.toString() === orderId.toString());
+    if (!order) {
+      throw apiError(404, "ORDER_NOT_FOUND", `Order ${orderId} not found`);
+    }
+    return order;
+  }
+
+  private async formatPositions(settle: string) {
+    const result = [];
+    for (const pos of this.positions.values()) {
+      const multiplier = await this.getMultiplier(settle, pos.contract);
+      const { mark } = await this.getPrices(settle, pos.contract);
+      const info = await this.getContract(settle, pos.contract);
+      const maintenanceRate = Number.parseFloat(info?.maintenanceRate || "0.005");
+      const liqPrice = this.liquidationPrice(pos, multiplier, maintenanceRate);
+
+      result.push({
+        contract: pos.contract,
+        size: pos.size,
+        leverage: pos.leverage.toString(),
+        entryPrice: pos.entryPrice.toString(),
+        markPrice: mark.toString(),
+        liqPrice: liqPrice.toString(),
+        value: (Math.abs(pos.size) * mark * multiplier).toString(),
+        margin: pos.margin.toString(),
+        unrealisedPnl: ((mark - pos.entryPrice) * pos.size * multiplier).toString(),
+        realisedPnl: pos.realisedPnl.toString(),
+        mode: "single",
+        openTime: pos.openTime,
+      });
+    }
+    return result;
+  }
+
+  public futures: GateFuturesApi = {
+    listFuturesTickers: (settle, opts = {}) => this.market.listFuturesTickers(settle, opts),
+
+    listFuturesCandlesticks: (settle, contract, opts = {}) =>
+      this.market.listFuturesCandlesticks(settle, contract, opts),
+
+    listFuturesAccounts: async (settle) => {
+      await this.sync(settle);
+      const account = await this.computeAccount(settle);
+      return ok({
+        currency: "USDT",
+        total: account.total.toString(),
+        available: account.available.toString(),
+        positionMargin: account.positionMargin.toString(),
+        orderMargin: account.orderMargin.toString(),
+        unrealisedPnl: account.unrealisedPnl.toString(),
+        inDualMode: false,
+      });
+    },
+
+    listPositions: async (settle, _opts = {}) => {
+      await this.sync(settle);
+      return ok(await this.formatPositions(settle));
+    },
+
+    createFuturesOrder: async (settle, order) => ok(await this.createOrder(settle, order)),
+
+    getFuturesOrder: async (settle, orderId) => {
+      await this.sync(settle);
+      return ok(this.formatOrder(this.findOrder(orderId)));
+    },
+
+    cancelFuturesOrder: async (settle, orderId) => {
+      await this.sync(settle);
+      const order = this.findOrder(orderId);
+      if (order.status !== "open") {
+        throw apiError(400, "ORDER_FINISHED", `Order ${orderId} is already finished`);
+      }
+      this.releaseOrderMargin(order);
+      order.status = "finished";
+      order.finishAs = "cancelled";
+      order.finishTime = this.nowSeconds();
+      return ok(this.formatOrder(order));
+    },
+
+    cancelFuturesOrders: async (settle, contract, _opts = {}) => {
+      await this.sync(settle);
+      const cancelled = [];
+      for (const order of this.orders) {
+        if (order.status !== "open" || order.contract !== contract) continue;
+        this.releaseOrderMargin(order);
+        order.fillAt = undefined;
+        order.status = "finished";
+        order.finishAs = "cancelled";
+        order.finishTime = this.nowSeconds();
+        cancelled.push(this.formatOrder(order));
+      }
+      return ok(cancelled);
+    },
+
+    createFuturesPriceTriggeredOrder: async (settle, input) => {
+      await this.sync(settle);
+      const initial = input.initial || {};
+      const trigger = input.trigger || {};
+      const contract: string = initial.contract;
+      const rule = Number(trigger.rule);
+      const triggerPrice = Number.parseFloat(trigger.price || "0");
+      if (!contract || !(triggerPrice > 0) || (rule !== 1 && rule !== 2)) {
+        throw apiError(400, "INVALID_PARAM_VALUE", "Price order requires contract, trigger price and rule 1/2");
+      }
+      // 校验合约存在
+      await this.getPrices(settle, contract);
+
+      const order: PaperPriceOrder = {
+        id: this.nextId++,
+        initial: {
+          contract,
+          size: Number.parseFloat(initial.size || "0"),
+          price: (initial.price || "0").toString(),
+          tif: initial.tif || "ioc",
+          text: initial.text || "api",
+          reduceOnly: Boolean(initial.reduceOnly ?? initial.reduce_only ?? initial.isReduceOnly),
+          close: Boolean(initial.close ?? initial.isClose ?? initial.is_close),
+        },
+        trigger: {
+          strategyType: Number(trigger.strategyType ?? trigger.strategy_type ?? 0),
+          priceType: Number(trigger.priceType ?? trigger.price_type ?? 0),
+          price: triggerPrice.toString(),
+          rule,
+          expiration: Number(trigger.expiration || 0),
+        },
+        status: "open",
+        finishAs: "",
+        reason: "",
+        createTime: this.nowSeconds(),
+        tradeId: 0,
+        lastCheck: this.now(),
+      };
+      this.priceOrders.push(order);
+      logger.info(`Paper price order #${order.id} ${contract} ${rule === 1 ? ">=" : "<="} ${order.trigger.price} created`);
+      return ok({ id: order.id });
+    },
+
+    listPriceTriggeredOrders: async (settle, status, opts = {}) => {
+      await this.sync(settle);
+      const limit = opts.limit || 100;
+      const offset = opts.offset || 0;
+      const orders = this.priceOrders
+        .filter((o) => o.status === status && (!opts.contract || o.initial.contract === opts.contract))
+        .slice()
+        .reverse()
+        .slice(offset, offset + limit)
+        .map((o) => this.formatPriceOrder(o));
+      return ok(orders);
+    },
+
+    getPriceTriggeredOrder: async (settle, orderId) => {
+      await this.sync(settle);
+      return ok(this.formatPriceOrder(this.findPriceOrder(orderId)));
+    },
+
+    cancelPriceTriggeredOrder: async (settle, orderId) => {
+      await this.sync(settle);
+      const order = this.findPriceOrder(orderId);
+      if (order.status !== "open") {
+        throw apiError(400, "ORDER_FINISHED", `Price order ${orderId} is already finished`);
+      }
+      this.cancelPriceOrder(order);
+      return ok(this.formatPriceOrder(order));
+    },
+
+    cancelPriceTriggeredOrderList: async (settle, contract) => {
+      await this.sync(settle);
+      const cancelled = this.priceOrders.filter((o) => o.status === "open" && (!contract || o.initial.contract === contract));
+      for (const order of cancelled) this.cancelPriceOrder(order);
+      return ok(cancelled.map((o) => this.formatPriceOrder(o)));
+    },
+
+    listFuturesOrders: async (settle, status, opts = {}) => {
+      await this.sync(settle);
+      const limit = opts.limit || 100;
+      const offset = opts.offset || 0;
+      const orders = this.orders
+        .filter((o) => o.status === status && (!opts.contract || o.contract === opts.contract))
+        .slice()
+        .reverse()
+        .slice(offset, offset + limit)
+        .map((o) => this.formatOrder(o));
+      return ok(orders);
+    },
+
+    updatePositionLeverage: async (settle, contract, leverage) => {
+      const value = Number.parseFloat(leverage);
+      if (!(value > 0)) {
+        throw apiError(400, "INVALID_PARAM_VALUE", `Invalid leverage ${leverage}`);
+      }
+      // 与交易所一致：已有持仓时修改杠杆会重新计算保证金
+      const pos = this.positions.get(contract);
+      if (pos) {
+        pos.margin = (pos.margin * pos.leverage) / value;
+        pos.leverage = value;
+      }
+      this.leverages.set(contract, value);
+      return ok({ contract, leverage: value.toString() });
+    },
+
+    updatePositionMargin: async (settle, contract, change) => {
+      await this.sync(settle);
+      const value = Number.parseFloat(change);
+      const pos = this.positions.get(contract);
+      if (!pos) {
+        throw apiError(400, "POSITION_NOT_FOUND", `No open position for ${contract}`);
+      }
+      if (!Number.isFinite(value) || value === 0) {
+        throw apiError(400, "INVALID_PARAM_VALUE", `Invalid margin change ${change}`);
+      }
+      const account = await this.computeAccount(settle);
+      if (value > account.available) {
+        throw apiError(400, "INSUFFICIENT_AVAILABLE", `Margin change ${value} exceeds available ${account.available}`);
+      }
+      if (pos.margin + value <= 0) {
+        throw apiError(400, "INVALID_PARAM_VALUE", `Margin change ${value} would leave no position margin`);
+      }
+      // 逐仓追加 / 减少保证金：只影响可用资金和强平价，不改变余额
+      pos.margin += value;
+      const positions = await this.formatPositions(settle);
+      return ok(positions.find((p) => p.contract === contract));
+    },
+
+    listFuturesFundingRateHistory: (settle, contract, opts = {}) =>
+      this.market.listFuturesFundingRateHistory(settle, contract, opts),
+
+    getFuturesContract: async (settle, contract) => ok(await this.getContract(settle, contract)),
+
+    listFuturesOrderBook: (settle, contract, opts = {}) =>
+      this.market.listFuturesOrderBook(settle, contract, opts),
+
+    getMyFuturesTrades: async (settle, opts = {}) => {
+      await this.sync(settle);
+      const limit = opts.limit || 100;
+      const trades = this.trades
+        .filter((t) => !opts.contract || t.contract === opts.contract)
+        .filter((t) => !opts.from || t.createTime >= opts.from)
+        .filter((t) => !opts.to || t.createTime <= opts.to)
+        .slice()
+        .reverse()
+        .slice(0, limit);
+      return ok(trades);
+    },
+
+    listFuturesLiquidatedOrders: async (settle, opts = {}) => {
+      await this.sync(settle);
+      const limit = opts.limit || 100;
+      const liquidations = this.liquidations
+        .filter((l) => !opts.contract || l.contract === opts.contract)
+        .slice()
+        .reverse()
+        .slice(0, limit);
+      return ok(liquidations);
+    },
+
+    listPositionClose: async (_settle, opts = {}) => {
+      const limit = opts.limit || 100;
+      const offset = opts.offset || 0;
+      const closes = this.positionCloses
+        .filter((c) => !opts.contract || c.contract === opts.contract)
+        .slice()
+        .reverse()
+        .slice(offset, offset + limit);
+      return ok(closes);
+    },
+
+    listFuturesSettlementHistory: (settle, opts = {}) => this.futures.listPositionClose(settle, opts),
+
+    // 模拟盘不依赖后端的引擎管理接口
+    getQuantRunningEngines: async () => ok({ data: [] }),
+
+    getQuantEngines: async () => ok({ data: [] }),
+
+    getQuantEngineConfig: async (id) => {
+      throw apiError(404, "NOT_FOUND", `Engine ${id} is not managed by the paper exchange`);
+    },
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * open-nof1.ai - AI 加密货币自动交易系统
+ * Copyright (C) 2025 195440
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * 脚本化模型（确定性 LLM 替身）
+ *
+ * 实现 ai-sdk 的 LanguageModel 接口，按脚本返回文本和工具调用，不访问网络。
+ * 一次 agent.generateText 对应一个交易周期，周期内每一步（step）对应一次模型调用：
+ * 模型返回工具调用 → ai-sdk 执行工具 → 带着工具结果再次调用模型，直到返回纯文本。
+ *
+ * 脚本来源：
+ * - fixture 文件：{ cycles: [{ match?, steps: [...] }], default? }，也可以直接是 cycles 数组。
+ *   带 match（正则）的条目按 prompt 匹配，否则按周期顺序依次使用，用完后使用 default。
+ * - 规则函数：(context) => 本步的回复，可以根据 prompt 和已有工具结果决定动作。
+ */
+import { readFileSync } from "node:fs";
+import type { LanguageModel } from "ai";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("scripted-model", "info");
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2["doGenerate"]>[0];
+
+export interface ScriptedToolCall {
+  toolName: string;
+  /** 工具参数 */
+  input?: Record<string, any>;
+}
+
+/**
+ * 单步回复：有 toolCalls 时本步以工具调用结束，否则 text 作为最终决策
+ */
+export interface ScriptedStep {
+  text?: string;
+  toolCalls?: ScriptedToolCall[];
+}
+
+export interface ScriptedCycle {
+  /** 匹配 prompt 的正则，省略时按顺序使用 */
+  match?: string;
+  steps: ScriptedStep[];
+}
+
+export interface ScriptedFixture {
+  cycles: ScriptedCycle[];
+  default?: ScriptedCycle;
+}
+
+export interface ScriptedToolResult {
+  toolName: string;
+  output: any;
+}
+
+export interface ScriptedContext {
+  /** 本周期的用户 prompt */
+  prompt: string;
+  system: string;
+  /** 周期序号（从 0 开始） */
+  cycle: number;
+  /** 周期内的步骤序号（从 0 开始） */
+  step: number;
+  /** 本周期已经返回的工具结果 */
+  toolResults: ScriptedToolResult[];
+}
+
+export type ScriptedRule = (context: ScriptedContext) => ScriptedStep | string | null | undefined;
+
+const DEFAULT_DECISION = "观望：脚本未提供本周期的决策";
+
+function textOf(content: any): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((part: any) => part.type === "text")
+    .map((part: any) => part.text)
+    .join("\n");
+}
+
+/**
+ * 从 ai-sdk 的 prompt 消息中提取周期上下文（最后一条 user 消息之后的都是本周期的步骤）
+ */
+function readPrompt(options: CallOptions) {
+  const messages: any[] = options.prompt;
+  let lastUser = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") {
+      lastUser = i;
+      break;
+    }
+  }
+
+  const toolResults: ScriptedToolResult[] = [];
+  let step = 0;
+  for (const message of messages.slice(lastUser + 1)) {
+    if (message.role === "assistant") step++;
+    if (message.role === "tool") {
+      for (const part of message.content) {
+        if (part.type === "tool-result") {
+          toolResults.push({ toolName: part.toolName, output: part.output?.value ?? part.output });
+        }
+      }
+    }
+  }
+
+  return {
+    prompt: lastUser >= 0 ? textOf(messages[lastUser].content) : "",
+    system: messages
+      .filter((m) => m.role === "system")
+      .map((m) => textOf(m.content))
+      .join("\n"),
+    step,
+    toolResults,
+  };
+}
+
+/**
+ * 读取 fixture 文件
+ */
+export function loadScriptedFixture(path: string): ScriptedFixture {
+  const raw = JSON.parse(readFileSync(path, "utf-8"));
+  return Array.isArray(raw) ? { cycles: raw } : { cycles: raw.cycles || [], default: raw.default };
+}
+
+/**
+ * 把 fixture 转换成规则函数
+ */
+export function fixtureRule(fixture: ScriptedFixture): ScriptedRule {
+  let sequentialIndex = 0;
+  let currentCycle = -1;
+  let current: ScriptedCycle | undefined;
+
+  return (context) => {
+    // 每个周期只选择一次脚本，周期内的后续步骤沿用
+    if (context.cycle !== currentCycle) {
+      currentCycle = context.cycle;
+      current = fixture.cycles.find((c) => c.match && new RegExp(c.match).test(context.prompt));
+      if (!current) {
+        const sequential = fixture.cycles.filter((c) => !c.match);
+        current = sequential[sequentialIndex++] || fixture.default;
+      }
+    }
+
+    return current?.steps[context.step] ?? null;
+  };
+}
+
+/**
+ * 脚本化模型，可直接传给 VoltAgent 的 Agent
+ */
+export class ScriptedModel implements LanguageModelV2 {
+  readonly specificationVersion = "v2";
+  readonly provider = "scripted";
+  readonly modelId: string;
+  readonly supportedUrls = {};
+
+  private readonly rule: ScriptedRule;
+  private cycle = -1;
+  private callCount = 0;
+
+  constructor(script: ScriptedRule | ScriptedFixture, modelId = "scripted") {
+    this.rule = typeof script === "function" ? script : fixtureRule(script);
+    this.modelId = modelId;
+  }
+
+  /**
+   * 按本步脚本生成 ai-sdk 内容块
+   */
+  private nextStep(options: CallOptions) {
+    const { prompt, system, step, toolResults } = readPrompt(options);
+    if (step === 0) this.cycle++;
+    this.callCount++;
+
+    const reply = this.rule({ prompt, system, cycle: this.cycle, step, toolResults });
+    const scripted: ScriptedStep = typeof reply === "string" ? { text: reply } : reply || { text: DEFAULT_DECISION };
+
+    const content: any[] = [];
+    if (scripted.text) {
+      content.push({ type: "text", text: scripted.text });
+    }
+    for (const [index, call] of (scripted.toolCalls || []).entries()) {
+      content.push({
+        type: "tool-call",
+        toolCallId: `scripted-${this.callCount}-${index}`,
+        toolName: call.toolName,
+        input: JSON.stringify(call.input || {}),
+      });
+    }
+
+    const hasToolCalls = (scripted.toolCalls || []).length > 0;
+    logger.info(
+      `Scripted cycle ${this.cycle} step ${step}: ${hasToolCalls ? scripted.toolCalls?.map((c) => c.toolName).join(", ") : "text"}`,
+    );
+
+    return {
+      content,
+      finishReason: (hasToolCalls ? "tool-calls" : "stop") as "tool-calls" | "stop",
+      usage: {
+        inputTokens: Math.ceil(prompt.length / 4),
+        outputTokens: Math.ceil((scripted.text || "").length / 4),
+        totalTokens: Math.ceil((prompt.length + (scripted.text || "").length) / 4),
+      },
+    };
+  }
+
+  async doGenerate(options: CallOptions) {
+    const result = this.nextStep(options);
+    return {
+      ...result,
+      warnings: [],
+      response: { id: `scripted-${this.callCount}`, modelId: this.modelId, timestamp: new Date(0) },
+    };
+  }
+
+  async doStream(options: CallOptions) {
+    const result = this.nextStep(options);
+    const id = `scripted-${this.callCount}`;
+
+    const parts: any[] = [{ type: "stream-start", warnings: [] }];
+    parts.push({ type: "response-metadata", id, modelId: this.modelId, timestamp: new Date(0) });
+    for (const item of result.content) {
+      if (item.type === "text") {
+        parts.push({ type: "text-start", id });
+        parts.push({ type: "text-delta", id, delta: item.text });
+        parts.push({ type: "text-end", id });
+      } else {
+        parts.push(item);
+      }
+    }
+    parts.push({ type: "finish", finishReason: result.finishReason, usage: result.usage });
+
+    const stream = new ReadableStream({
+      start(controller) {
+        for (const part of parts) controller.enqueue(part);
+        controller.close();
+      },
+    });
+
+    return { stream };
+  }
+}
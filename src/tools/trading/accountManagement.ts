@@ -21,14 +21,15 @@
  */
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
-import { GateApiLocal } from "../../services/gateApiLocal";
+import { GateApiClient } from "../../services/gateApiLocal";
+import { ContractMetadataService } from "../../services/contractMetadata";
 import { RISK_PARAMS } from "../../config/riskParams";
 
 /**
  * 创建账户管理工具
- * @param backendClient Backend-base API 客户端（使用 GateApiLocal）
+ * @param backendClient Backend-base API 客户端（GateApiLocal 或模拟盘 PaperExchange）
  */
-export const createGetAccountBalanceTool = (backendClient: GateApiLocal) => createTool({
+export const createGetAccountBalanceTool = (backendClient: GateApiClient) => createTool({
   name: "getAccountBalance",
   description: "获取账户余额和资金信息",
   parameters: z.object({}),
@@ -58,7 +59,7 @@ export const createGetAccountBalanceTool = (backendClient: GateApiLocal) => crea
 /**
  * 获取当前持仓工具
  */
-export const createGetPositionsTool = (backendClient: GateApiLocal) => createTool({
+export const createGetPositionsTool = (backendClient: GateApiClient) => createTool({
   name: "getPositions",
   description: "获取当前所有持仓信息",
   parameters: z.object({}),
@@ -100,7 +101,7 @@ export const createGetPositionsTool = (backendClient: GateApiLocal) => createToo
 /**
  * 获取未成交订单工具
  */
-export const createGetOpenOrdersTool = (backendClient: GateApiLocal) => createTool({
+export const createGetOpenOrdersTool = (backendClient: GateApiClient) => createTool({
   name: "getOpenOrders",
   description: "获取所有未成交的挂单",
   parameters: z.object({
@@ -141,7 +142,7 @@ export const createGetOpenOrdersTool = (backendClient: GateApiLocal) => createTo
 /**
  * 检查订单状态工具
  */
-export const createCheckOrderStatusTool = (backendClient: GateApiLocal) => createTool({
+export const createCheckOrderStatusTool = (backendClient: GateApiClient) => createTool({
   name: "checkOrderStatus",
   description: "检查指定订单的详细状态，包括成交价格、成交数量等",
   parameters: z.object({
@@ -186,7 +187,10 @@ export const createCheckOrderStatusTool = (backendClient: GateApiLocal) => creat
 /**
  * 计算风险敞口工具
  */
-export const createCalculateRiskTool = (backendClient: GateApiLocal) => createTool({
+export const createCalculateRiskTool = (
+  backendClient: GateApiClient,
+  contracts: ContractMetadataService = ContractMetadataService.fromApi(backendClient),
+) => createTool({
   name: "calculateRisk",
   description: "计算当前账户的风险敞口和仓位情况",
   parameters: z.object({}),
@@ -209,7 +213,7 @@ export const createCalculateRiskTool = (backendClient: GateApiLocal) => createTo
       // 计算每个持仓的风险
       const activePositions = positions.filter((p: any) => Number.parseInt(p.size || "0") !== 0);
 
-      const positionRisks = activePositions.map((p: any) => {
+      const positionRisks = await Promise.all(activePositions.map(async (p: any) => {
         const size = Math.abs(Number.parseFloat(p.size || "0"));
         const entryPrice = Number.parseFloat(p.entryPrice || "0");
         const leverage = Number.parseInt(p.leverage || "1");
@@ -217,8 +221,8 @@ export const createCalculateRiskTool = (backendClient: GateApiLocal) => createTo
         const currentPrice = Number.parseFloat(p.markPrice || "0");
         const pnl = Number.parseFloat(p.unrealisedPnl || "0");
 
-        // 使用默认合约乘数 0.01
-        const quantoMultiplier = 0.01;
+        // 合约乘数取自合约元数据缓存
+        const { quantoMultiplier, maintenanceRate } = await contracts.get(p.contract);
 
         // 正确计算名义价值：张数 × 入场价格 × 合约乘数
         const notionalValue = size * entryPrice * quantoMultiplier;
@@ -236,9 +240,10 @@ export const createCalculateRiskTool = (backendClient: GateApiLocal) => createTo
           leverage,
           pnl,
           riskPercent,
+          maintenanceMargin: notionalValue * maintenanceRate,
           side: Number.parseFloat(p.size || "0") > 0 ? "long" : "short",
         };
-      });
+      }));
 
       const totalNotional = positionRisks.reduce((sum: number, p: any) => sum + p.notionalValue, 0);
       const totalMargin = positionRisks.reduce((sum: number, p: any) => sum + p.margin, 0);
@@ -284,7 +289,7 @@ export const createCalculateRiskTool = (backendClient: GateApiLocal) => createTo
  * 注意：由于现在持仓数据直接从 backend-base 获取，这个工具已废弃
  * 保留接口以兼容性，但实际不再执行同步操作
  */
-export const createSyncPositionsTool = (backendClient: GateApiLocal) => createTool({
+export const createSyncPositionsTool = (backendClient: GateApiClient) => createTool({
   name: "syncPositions",
   description: "同步交易所持仓数据到本地数据库（已废弃，持仓数据现在直接从 backend-base 获取）",
   parameters: z.object({}),
@@ -17,7 +17,12 @@
  */
 
 import { GateClient } from "../../services/gateClient";
-import { GateApiLocal } from "../../services/gateApiLocal";
+import { GateApiClient } from "../../services/gateApiLocal";
+import type { PreTradeGate } from "../../risk/preTradeGate";
+import type { AtrPositionSizer } from "../../risk/positionSizing";
+import type { BracketOrderManager } from "../../risk/bracketOrders";
+import type { OrderTracker } from "../../services/orderTracker";
+import type { LimitEntryExecutor } from "../../services/limitEntry";
 import {
   createGetAccountBalanceTool,
   createGetPositionsTool
@@ -39,10 +44,23 @@ import {
 /**
  * 创建所有交易工具实例
  * @param gateClient GateClient 实例（用于 Gate.io 交易）
- * @param backendClient Backend-base API 客户端（用于账户和持仓查询）
+ * @param backendClient Backend-base API 客户端或模拟盘（用于账户和持仓查询）
+ * @param preTradeGate 开仓风控（可选，未提供时仅校验最大杠杆）
+ * @param sizer ATR 仓位计算（可选，提供时 openPosition 只接受方向和信号强度）
+ * @param brackets 交易所端止损止盈（可选，提供时开仓后自动挂触发单、平仓后撤销）
+ * @param tracker 订单跟踪器（可选，提供时开平仓等待成交并返回成交均价和手续费）
+ * @param entry 限价 / post-only 开仓（可选，提供时 openPosition 按盘口最优价挂单而不是市价单）
  * @returns 工具列表
  */
-export function createTradingTools(gateClient: GateClient, backendClient: GateApiLocal) {
+export function createTradingTools(
+  gateClient: GateClient,
+  backendClient: GateApiClient,
+  preTradeGate?: PreTradeGate,
+  sizer?: AtrPositionSizer,
+  brackets?: BracketOrderManager,
+  tracker?: OrderTracker,
+  entry?: LimitEntryExecutor,
+) {
   return [
     // 账户管理（使用 backendClient）
     createGetAccountBalanceTool(backendClient),
@@ -56,8 +74,8 @@ export function createTradingTools(gateClient: GateClient, backendClient: GateAp
     createGetOpenInterestTool(gateClient),
 
     // 交易执行（使用 gateClient）
-    createOpenPositionTool(gateClient),
-    createClosePositionTool(gateClient),
+    createOpenPositionTool(gateClient, preTradeGate, sizer, brackets, tracker, entry),
+    createClosePositionTool(gateClient, brackets, tracker),
     createSetStopLossTakeProfitTool(gateClient),
     createCancelAllOrdersTool(gateClient),
   ];
@@ -22,64 +22,240 @@
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
 import { GateClient } from "../../services/gateClient";
+import { ContractSizer } from "../../services/contractSizing";
 import { RISK_PARAMS } from "../../config/riskParams";
+import type { PreTradeGate } from "../../risk/preTradeGate";
+import { type AtrPositionSizer, CONVICTION_TIERS } from "../../risk/positionSizing";
+import type { BracketOrderManager } from "../../risk/bracketOrders";
+import type { OrderPurpose, OrderTracker } from "../../services/orderTracker";
+import type { LimitEntryExecutor } from "../../services/limitEntry";
+
+/**
+ * 按成交后的持仓重挂交易所端止损止盈，失败时只返回错误信息（订单已成交，不影响开仓结果）
+ */
+async function refreshBracket(gateClient: GateClient, brackets: BracketOrderManager | undefined, contract: string, stopDistance?: number) {
+  if (!brackets) return {};
+  try {
+    const positions = await gateClient.getPositions();
+    const position = positions.find((p: any) => p.contract === contract) || null;
+    const bracket = await brackets.refresh(contract, position, stopDistance);
+    return bracket ? { bracket } : {};
+  } catch (error: any) {
+    return { bracketError: `止损止盈挂单失败，将在下个周期重试: ${error.message}` };
+  }
+}
+
+/**
+ * 登记订单并等待到达终态，返回成交结果；超时未完成的订单由跟踪器在后续周期继续跟踪
+ */
+async function trackFill(tracker: OrderTracker | undefined, placed: any, purpose: OrderPurpose) {
+  if (!tracker) return undefined;
+  const tracked = await tracker.track(placed, { purpose });
+  const order = (await tracker.waitForTerminal(tracked.id)) ?? tracked;
+  return {
+    state: order.state,
+    filledSize: order.filledSize,
+    leftSize: order.leftSize,
+    avgFillPrice: order.avgFillPrice,
+    fee: order.fee,
+    finishAs: order.finishAs,
+  };
+}
+
+/**
+ * 开仓方式说明（附加到 openPosition 工具描述）
+ */
+function entryDescription(entry?: LimitEntryExecutor) {
+  const config = entry?.getConfig();
+  if (!config || config.mode === "market") return "";
+  const orderType = config.mode === "post_only" ? "post-only（只做 Maker）限价单" : "限价单";
+  return `。开仓使用${orderType}在盘口最优价挂单（做多买一、做空卖一），${config.repriceIntervalMs / 1000} 秒未成交撤单按新盘口重挂（最多 ${config.maxReprices} 次），${config.timeoutMs / 1000} 秒后撤销剩余挂单，可能只部分成交或不成交，以返回的成交张数和均价为准`;
+}
+
+/**
+ * 开仓下单：风控校验 → 设置杠杆 → 换算整数张 → 市价下单（或限价 / post-only 挂单）→ 挂止损止盈
+ */
+async function executeOpenPosition(
+  gateClient: GateClient,
+  preTradeGate: PreTradeGate | undefined,
+  order: { symbol: string; side: "long" | "short"; amount: number; leverage: number },
+  extra: Record<string, any> = {},
+  brackets?: BracketOrderManager,
+  stopDistance?: number,
+  tracker?: OrderTracker,
+  entry?: LimitEntryExecutor,
+) {
+  let { amount, leverage } = order;
+  const { symbol, side } = order;
+
+  // 1. 检查风险控制
+  if (leverage > RISK_PARAMS.MAX_LEVERAGE) {
+    return { error: `杠杆倍数超过最大限制: ${RISK_PARAMS.MAX_LEVERAGE}` };
+  }
+
+  const contract = `${symbol}_USDT`;
+
+  // 开仓风控：持仓数量、策略杠杆区间、名义敞口、可用保证金、账户回撤
+  const check = preTradeGate
+    ? await preTradeGate.check({ contract, side, amount, leverage })
+    : null;
+  if (check && !check.allowed) {
+    return { error: `开仓被风控拒绝: ${check.reason}`, rejected: true, riskCheck: check, ...extra };
+  }
+  if (check) {
+    amount = check.amount;
+    leverage = check.leverage;
+  }
+  
+  // 2. 设置杠杆
+  await gateClient.setLeverage(contract, leverage);
+  
+  // 3. 按合约面值（quantoMultiplier）把保证金 × 杠杆换算为整数张
+  const sizing = await new ContractSizer(gateClient).size(contract, amount, leverage);
+  const { price } = sizing;
+  if (sizing.contracts === 0) {
+    return {
+      error: `开仓失败: ${sizing.note}`,
+      rejected: true,
+      contractSizing: sizing,
+      riskAdjustments: check?.violations.length ? check.violations : undefined,
+      ...extra,
+    };
+  }
+  
+  // 取整后的保证金与请求偏差过大时不下单，把换算结果返回给 Agent 确认（按返回的保证金重新开仓即可）；
+  // ATR 模式（传入 stopDistance）的保证金由系统计算，不需要确认
+  const maxDeviation = preTradeGate?.getLimits().maxSizingDeviationPercent;
+  const deviationPercent = amount > 0 ? (Math.abs(amount - sizing.margin) / amount) * 100 : 0;
+  if (stopDistance === undefined && maxDeviation !== undefined && deviationPercent > maxDeviation) {
+    return {
+      error: `按合约面值取整为 ${sizing.contracts} 张后保证金 ${sizing.margin.toFixed(2)} USDT，与请求的 ${amount.toFixed(2)} USDT 相差 ${deviationPercent.toFixed(1)}%（上限 ${maxDeviation}%），未下单。确认后以 amount=${sizing.margin.toFixed(2)} 重新开仓`,
+      sizingConfirmationRequired: true,
+      contractSizing: sizing,
+      leverage,
+      riskAdjustments: check?.violations.length ? check.violations : undefined,
+      ...extra,
+    };
+  }
+
+  // 转换方向: long -> size > 0, short -> size < 0
+  const sizeToSend = side === "long" ? sizing.contracts : -sizing.contracts;
+  
+  // 4. 限价 / post-only 开仓：按盘口最优价挂单、超时重挂，未成交部分撤单
+  if (entry && entry.getConfig().mode !== "market") {
+    const result = await entry.execute(contract, sizeToSend);
+    if (result.filledSize === 0) {
+      return {
+        error: `${result.mode === "post_only" ? "Post-only" : "限价"}开仓未成交，挂单已撤销（共挂单 ${result.attempts.length} 次）`,
+        entry: result,
+        riskAdjustments: check?.violations.length ? check.violations : undefined,
+        ...extra,
+      };
+    }
+    const filledContracts = Math.abs(result.filledSize);
+    const bracket = await refreshBracket(gateClient, brackets, contract, stopDistance);
+    return {
+      success: true,
+      orderId: result.attempts.filter((a) => a.orderId).map((a) => a.orderId).join(","),
+      symbol,
+      side,
+      size: result.filledSize,
+      price: result.avgFillPrice,
+      fill: {
+        filledSize: result.filledSize,
+        unfilledSize: result.unfilledSize,
+        avgFillPrice: result.avgFillPrice,
+        fee: result.fee,
+      },
+      entry: result,
+      // 按实际成交张数计算名义价值和保证金
+      amount: (sizing.margin * filledContracts) / sizing.contracts,
+      requestedAmount: amount,
+      notional: filledContracts * sizing.quantoMultiplier * result.avgFillPrice,
+      quantoMultiplier: sizing.quantoMultiplier,
+      contractNote: sizing.note,
+      leverage,
+      riskAdjustments: check?.violations.length ? check.violations : undefined,
+      ...bracket,
+      ...extra,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  // 4. 市价下单
+  const placed = await gateClient.placeFuturesOrder(
+    contract,
+    sizeToSend,
+    0, // 0 表示市价单
+    { tif: "ioc" } // 市价单通常配合 IOC
+  );
+  const fill = await trackFill(tracker, placed, "open");
+  if (fill && fill.state === "cancelled" && fill.filledSize === 0) {
+    return {
+      error: `市价开仓未成交（${fill.finishAs || "cancelled"}）`,
+      orderId: placed.id,
+      fill,
+      riskAdjustments: check?.violations.length ? check.violations : undefined,
+      ...extra,
+    };
+  }
+
+  // IOC 可能只部分成交：订单已结束时按实际成交张数和均价计算；仍在跟踪中时按下单张数
+  const finished = fill?.state === "filled" || fill?.state === "cancelled";
+  const filledSize = finished ? fill.filledSize : sizeToSend;
+  const filledContracts = Math.abs(filledSize);
+  const fillPrice = fill?.avgFillPrice || Number.parseFloat(placed.fillPrice || "0") || price; // 市价单未成交时为下单前的行情价
+
+  // 5. 交易所端止损止盈
+  const bracket = await refreshBracket(gateClient, brackets, contract, stopDistance);
+  
+  return {
+    success: true,
+    orderId: placed.id,
+    symbol,
+    side,
+    size: filledSize,
+    price: fillPrice,
+    status: placed.status,
+    fill,
+    // 实际名义价值和保证金（按成交的整数张计算，可能略小于请求金额）
+    amount: (sizing.margin * filledContracts) / sizing.contracts,
+    requestedAmount: amount,
+    notional: finished ? filledContracts * sizing.quantoMultiplier * fillPrice : sizing.notional,
+    quantoMultiplier: sizing.quantoMultiplier,
+    contractNote: sizing.note,
+    leverage,
+    riskAdjustments: check?.violations.length ? check.violations : undefined,
+    ...bracket,
+    ...extra,
+    timestamp: new Date().toISOString()
+  };
+}
 
 /**
  * 开仓工具
+ * 提供 sizer（riskParams.sizing.mode = "atr"）时 Agent 只选择方向和信号强度，仓位和杠杆由 ATR 计算
  */
-export const createOpenPositionTool = (gateClient: GateClient) => createTool({
+export const createOpenPositionTool = (
+  gateClient: GateClient,
+  preTradeGate?: PreTradeGate,
+  sizer?: AtrPositionSizer,
+  brackets?: BracketOrderManager,
+  tracker?: OrderTracker,
+  entry?: LimitEntryExecutor,
+) =>
+  sizer ? createAtrOpenPositionTool(gateClient, sizer, preTradeGate, brackets, tracker, entry) : createTool({
   name: "openPosition",
-  description: "开立新的合约仓位 (做多或做空)",
+  description: `开立新的合约仓位 (做多或做空)${entryDescription(entry)}`,
   parameters: z.object({
     symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS as [string, ...string[]]).describe("币种代码"),
     side: z.enum(["long", "short"]).describe("方向: long(做多) 或 short(做空)"),
-    amount: z.number().positive().describe("交易数量 (USDT金额)"),
+    amount: z.number().positive().describe("保证金 (USDT金额)，名义价值 = 保证金 × 杠杆，按合约面值向下取整为整数张；取整后保证金偏差过大时不下单，返回换算结果供确认"),
     leverage: z.number().min(1).max(RISK_PARAMS.MAX_LEVERAGE).default(1).describe("杠杆倍数"),
   }),
   execute: async ({ symbol, side, amount, leverage }) => {
     try {
-      // 1. 检查风险控制
-      if (leverage > RISK_PARAMS.MAX_LEVERAGE) {
-        return { error: `杠杆倍数超过最大限制: ${RISK_PARAMS.MAX_LEVERAGE}` };
-      }
-
-      const contract = `${symbol}_USDT`;
-      
-      // 2. 设置杠杆
-      await gateClient.setLeverage(contract, leverage);
-      
-      // 3. 获取当前价格计算数量
-      const ticker = await gateClient.getFuturesTicker(contract);
-      const price = Number.parseFloat(ticker.last || "0");
-      if (price <= 0) return { error: "无法获取有效市场价格" };
-      
-      // 计算合约数量 (合约通常以币为单位或张数为单位，这里简化假设为币的数量)
-      // 注意：实际生产环境需要根据合约面值精确计算
-      // 假设 amount 是 USDT 金额，size = (amount * leverage) / price
-      // 且需要取整到合约最小单位
-      let size = Math.floor(((amount * leverage) / price) * 100) / 100; // 保留2位小数
-      
-      // 转换方向: long -> size > 0, short -> size < 0
-      const sizeToSend = side === "long" ? size : -size;
-      
-      // 4. 下单
-      const order = await gateClient.placeFuturesOrder(
-        contract,
-        sizeToSend,
-        0, // 0 表示市价单
-        { tif: "ioc" } // 市价单通常配合 IOC
-      );
-      
-      return {
-        success: true,
-        orderId: order.id,
-        symbol,
-        side,
-        size: sizeToSend,
-        price: order.fill_price || price, // 如果是市价单，可能还没有成交价
-        status: order.status,
-        timestamp: new Date().toISOString()
-      };
+      return await executeOpenPosition(gateClient, preTradeGate, { symbol, side, amount, leverage }, {}, brackets, undefined, tracker, entry);
     } catch (error: any) {
       return { error: `开仓失败: ${error.message}` };
     }
@@ -87,15 +263,56 @@ export const createOpenPositionTool = (gateClient: GateClient) => createTool({
 });
 
 /**
- * 平仓工具
+ * 开仓工具（ATR 仓位模式）
  */
-export const createClosePositionTool = (gateClient: GateClient) => createTool({
+const createAtrOpenPositionTool = (
+  gateClient: GateClient,
+  sizer: AtrPositionSizer,
+  preTradeGate?: PreTradeGate,
+  brackets?: BracketOrderManager,
+  tracker?: OrderTracker,
+  entry?: LimitEntryExecutor,
+) => {
+  const config = sizer.getConfig();
+  return createTool({
+    name: "openPosition",
+    description: `开立新的合约仓位 (做多或做空)。仓位大小和杠杆由系统按 ATR 止损距离计算：单笔风险为账户净值的 ${config.riskPerTradePercent}% × 信号强度系数，止损距离为 ${config.stopAtrMultiple} 倍 ATR(${config.atrPeriod}, ${config.atrInterval})${entryDescription(entry)}`,
+    parameters: z.object({
+      symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS as [string, ...string[]]).describe("币种代码"),
+      side: z.enum(["long", "short"]).describe("方向: long(做多) 或 short(做空)"),
+      conviction: z.enum(CONVICTION_TIERS).describe("信号强度: normal(普通) / good(良好) / strong(强)"),
+    }),
+    execute: async ({ symbol, side, conviction }) => {
+      try {
+        const sizing = await sizer.size({ contract: `${symbol}_USDT`, side, conviction });
+        return await executeOpenPosition(
+          gateClient,
+          preTradeGate,
+          { symbol, side, amount: sizing.amount, leverage: sizing.leverage },
+          { sizing },
+          brackets,
+          sizing.stopDistance,
+          tracker,
+          entry,
+        );
+      } catch (error: any) {
+        return { error: `开仓失败: ${error.message}` };
+      }
+    },
+  });
+};
+
+/**
+ * 平仓工具（percentage < 100 时用 reduce-only 订单部分平仓）
+ */
+export const createClosePositionTool = (gateClient: GateClient, brackets?: BracketOrderManager, tracker?: OrderTracker) => createTool({
   name: "closePosition",
-  description: "平掉指定币种的当前仓位",
+  description: "平掉指定币种的当前仓位，可通过 percentage 部分平仓（分批止盈）",
   parameters: z.object({
     symbol: z.enum(RISK_PARAMS.TRADING_SYMBOLS as [string, ...string[]]).describe("币种代码"),
+    percentage: z.number().min(1).max(100).default(100).describe("平仓比例（1-100，默认 100 全部平仓）"),
   }),
-  execute: async ({ symbol }) => {
+  execute: async ({ symbol, percentage }) => {
     try {
       const contract = `${symbol}_USDT`;
       
@@ -109,8 +326,11 @@ export const createClosePositionTool = (gateClient: GateClient) => createTool({
       }
       
       // 2. 下反向单平仓
-      // 平仓数量为持仓数量的相反数
-      const closeSize = -size;
+      // 平仓数量为持仓数量（按比例取整，至少 1 张）的相反数
+      const closeQuantity = percentage >= 100
+        ? Math.abs(size)
+        : Math.min(Math.abs(size), Math.max(1, Math.floor((Math.abs(size) * percentage) / 100)));
+      const closeSize = size > 0 ? -closeQuantity : closeQuantity;
       
       const order = await gateClient.placeFuturesOrder(
         contract,
@@ -118,13 +338,19 @@ export const createClosePositionTool = (gateClient: GateClient) => createTool({
         0, // 市价
         { tif: "ioc", reduce_only: true } // 只减仓
       );
+      const fill = await trackFill(tracker, order, closeQuantity < Math.abs(size) ? "reduce" : "close");
+
+      // 3. 撤销交易所端止损止盈
+      await refreshBracket(gateClient, brackets, contract);
       
       return {
         success: true,
         orderId: order.id,
         symbol,
-        action: "close",
-        closedSize: Math.abs(size),
+        action: closeQuantity < Math.abs(size) ? "reduce" : "close",
+        closedSize: closeQuantity,
+        remainingSize: Math.abs(size) - closeQuantity,
+        fill,
         pnl: position.realised_pnl || "unknown",
         timestamp: new Date().toISOString()
       };
@@ -22,10 +22,11 @@
 
 /**
  * 获取当前中国时间的 ISO 字符串
+ * @param date 可选，指定时间（默认当前时间）
  * @returns 中国时间的 ISO 格式字符串
  */
-export function getChinaTimeISO(): string {
-  const now = new Date();
+export function getChinaTimeISO(date?: Date): string {
+  const now = date || new Date();
   
   // 使用 toLocaleString 获取中国时间，然后转换为 ISO 格式
   const chinaTimeString = now.toLocaleString('zh-CN', { 